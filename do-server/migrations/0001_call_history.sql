@@ -0,0 +1,18 @@
+-- Finished calls for the dashboard's call history
+CREATE TABLE IF NOT EXISTS calls (
+  call_sid TEXT PRIMARY KEY,
+  partial_number TEXT,
+  called_number TEXT,
+  routing_reason TEXT,
+  claimed_by TEXT,
+  claimed_by_name TEXT,
+  transfer_status TEXT,
+  started_at INTEGER NOT NULL,
+  ended_at INTEGER NOT NULL,
+  duration_ms INTEGER NOT NULL,
+  transcript TEXT NOT NULL,      -- JSON array of {role, text, at}
+  function_calls TEXT NOT NULL,  -- JSON array of {callId, name, arguments, output, at}
+  search_text TEXT NOT NULL      -- Transcript lines and function names, for /calls?q=
+);
+
+CREATE INDEX IF NOT EXISTS idx_calls_started_at ON calls (started_at DESC);
@@ -0,0 +1,2 @@
+-- Post-call summary and disposition, as JSON
+ALTER TABLE calls ADD COLUMN summary TEXT;
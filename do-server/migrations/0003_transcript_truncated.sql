@@ -0,0 +1,2 @@
+-- Set when a long call's opening transcript lines were dropped to stay under the size cap
+ALTER TABLE calls ADD COLUMN transcript_truncated INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,125 @@
+// Business-hours schedule evaluation for inbound call routing
+import { ActiveInboundFlow, BusinessSchedule, Weekday } from './types';
+
+const WEEKDAYS: Weekday[] = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_CLOSED_MESSAGE_LENGTH = 500;
+
+interface LocalTime {
+  date: string;      // 'YYYY-MM-DD'
+  weekday: Weekday;
+  minutes: number;   // Minutes since local midnight
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+/**
+ * Convert an instant to the schedule's local date, weekday and time of day
+ */
+function getLocalTime(now: Date, timeZone: string): LocalTime {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'short',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(now);
+  const get = (type: Intl.DateTimeFormatPartTypes) => parts.find((part) => part.type === type)?.value || '';
+
+  return {
+    date: `${get('year')}-${get('month')}-${get('day')}`,
+    weekday: get('weekday').toLowerCase().slice(0, 3) as Weekday,
+    minutes: toMinutes(`${get('hour')}:${get('minute')}`),
+  };
+}
+
+/**
+ * Check a schedule submitted from the dashboard, returning an error message or null
+ */
+export function validateBusinessSchedule(schedule: BusinessSchedule): string | null {
+  if (!schedule || typeof schedule !== 'object') {
+    return 'Schedule is required';
+  }
+
+  // An unset timezone would silently fall back to the worker's (UTC)
+  if (typeof schedule.timezone !== 'string' || !schedule.timezone.trim()) {
+    return 'timezone is required';
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: schedule.timezone });
+  } catch {
+    return `Unknown timezone: ${schedule.timezone}`;
+  }
+
+  if (!schedule.weeklyHours || typeof schedule.weeklyHours !== 'object') {
+    return 'weeklyHours is required';
+  }
+  for (const [day, windows] of Object.entries(schedule.weeklyHours)) {
+    if (!WEEKDAYS.includes(day as Weekday)) {
+      return `Unknown weekday: ${day}`;
+    }
+    if (!Array.isArray(windows)) {
+      return `Invalid hours for ${day}: use a list of open/close windows`;
+    }
+    for (const window of windows) {
+      if (!TIME_PATTERN.test(window.open) || !TIME_PATTERN.test(window.close)) {
+        return `Invalid hours for ${day}: use HH:MM`;
+      }
+      if (toMinutes(window.close) <= toMinutes(window.open)) {
+        return `Invalid hours for ${day}: close must be after open`;
+      }
+    }
+  }
+
+  if (!Array.isArray(schedule.holidays) || schedule.holidays.some((date) => !DATE_PATTERN.test(date))) {
+    return 'Holidays must be a list of YYYY-MM-DD dates';
+  }
+
+  if (schedule.openFlow !== 'operator' && schedule.openFlow !== 'ai') {
+    return "openFlow must be 'operator' or 'ai'";
+  }
+  if (schedule.closedFlow !== 'ai' && schedule.closedFlow !== 'closed') {
+    return "closedFlow must be 'ai' or 'closed'";
+  }
+
+  if (schedule.closedMessage !== undefined) {
+    if (typeof schedule.closedMessage !== 'string') {
+      return 'closedMessage must be text';
+    }
+    if (schedule.closedMessage.length > MAX_CLOSED_MESSAGE_LENGTH) {
+      return `closedMessage must be ${MAX_CLOSED_MESSAGE_LENGTH} characters or fewer`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Work out which inbound flow a schedule selects at the given instant
+ */
+export function evaluateBusinessSchedule(schedule: BusinessSchedule, now: Date = new Date()): ActiveInboundFlow {
+  const local = getLocalTime(now, schedule.timezone);
+  const closed: ActiveInboundFlow = {
+    flow: schedule.closedFlow,
+    reason: 'closed',
+    closedMessage: schedule.closedMessage,
+  };
+
+  if (schedule.holidays.includes(local.date)) {
+    return { ...closed, reason: 'holiday' };
+  }
+
+  const windows = schedule.weeklyHours[local.weekday] || [];
+  const isOpen = windows.some(
+    (window) => local.minutes >= toMinutes(window.open) && local.minutes < toMinutes(window.close)
+  );
+
+  return isOpen ? { flow: schedule.openFlow, reason: 'open' } : closed;
+}
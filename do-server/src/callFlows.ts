@@ -0,0 +1,50 @@
+// Per-number greeting and hold flow definitions
+import { CallFlowDefinition } from './types';
+
+const MAX_MESSAGE_LENGTH = 500;
+const MAX_HOLD_LOOPS = 10;
+const HOLD_TRACK_PATTERN = /^[\w.-]+\.(mp3|wav)$/;
+
+// Used for numbers that have not been customised yet
+export const DEFAULT_CALL_FLOW: CallFlowDefinition = {
+  greeting: 'You have reached the Fluffhead Pharmacy demo system. Please wait while we connect you to an available agent.',
+  holdMessage: 'Please hold while we connect you.',
+  holdTrack: 'breakaway.mp3',
+  holdLoops: 3,
+  retryMessage: "We're still trying to connect you. Please hold.",
+};
+
+/**
+ * Fill in anything a stored flow leaves out with the defaults
+ */
+export function resolveCallFlow(flow?: Partial<CallFlowDefinition>): CallFlowDefinition {
+  return { ...DEFAULT_CALL_FLOW, ...flow };
+}
+
+/**
+ * Check a flow submitted from the dashboard, returning an error message or null
+ */
+export function validateCallFlow(flow: CallFlowDefinition): string | null {
+  if (!flow || typeof flow !== 'object') {
+    return 'Flow is required';
+  }
+
+  for (const field of ['greeting', 'holdMessage', 'retryMessage'] as const) {
+    if (typeof flow[field] !== 'string' || !flow[field].trim()) {
+      return `${field} is required`;
+    }
+    if (flow[field].length > MAX_MESSAGE_LENGTH) {
+      return `${field} must be ${MAX_MESSAGE_LENGTH} characters or fewer`;
+    }
+  }
+
+  if (!HOLD_TRACK_PATTERN.test(flow.holdTrack || '')) {
+    return 'holdTrack must be an .mp3 or .wav file name';
+  }
+
+  if (!Number.isInteger(flow.holdLoops) || flow.holdLoops < 1 || flow.holdLoops > MAX_HOLD_LOOPS) {
+    return `holdLoops must be between 1 and ${MAX_HOLD_LOOPS}`;
+  }
+
+  return null;
+}
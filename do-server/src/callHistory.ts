@@ -0,0 +1,204 @@
+// Finished calls kept in D1 (a local SQLite database under `wrangler dev`)
+import {
+  CallHistoryPage,
+  CallHistoryRecord,
+  CallHistorySummary,
+  FunctionCallRecord,
+} from './types';
+import { MAX_STORED_VALUE_BYTES, serializedBytes } from './storageLimits';
+
+const MAX_FUNCTION_CALLS = 50;
+// Longest arguments or output kept for one function call
+const MAX_FUNCTION_TEXT_CHARS = 4000;
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+const SUMMARY_COLUMNS = `call_sid, partial_number, called_number, routing_reason, claimed_by, claimed_by_name,
+  transfer_status, started_at, ended_at, duration_ms, summary`;
+
+interface CallRow {
+  call_sid: string;
+  partial_number: string | null;
+  called_number: string | null;
+  routing_reason: string | null;
+  claimed_by: string | null;
+  claimed_by_name: string | null;
+  transfer_status: string | null;
+  started_at: number;
+  ended_at: number;
+  duration_ms: number;
+  summary: string | null;
+  transcript?: string;
+  transcript_truncated?: number;
+  function_calls?: string;
+}
+
+function clipText(text: string): string {
+  return text.length > MAX_FUNCTION_TEXT_CHARS ? text.slice(0, MAX_FUNCTION_TEXT_CHARS) : text;
+}
+
+/**
+ * Drop the oldest function calls until the list fits in one storage value.
+ * Clipped arguments and outputs keep any single call well under the cap.
+ */
+function fitToStorage(functionCalls: FunctionCallRecord[]): FunctionCallRecord[] {
+  let calls = functionCalls.slice(-MAX_FUNCTION_CALLS);
+  while (calls.length > 1 && serializedBytes(calls) > MAX_STORED_VALUE_BYTES) {
+    calls = calls.slice(1);
+  }
+  return calls;
+}
+
+/**
+ * Record a function call the assistant made, keeping only the most recent ones
+ */
+export function appendFunctionCall(
+  functionCalls: FunctionCallRecord[] | undefined,
+  call: Omit<FunctionCallRecord, 'at'>
+): FunctionCallRecord[] {
+  return fitToStorage([
+    ...(functionCalls || []),
+    { ...call, arguments: clipText(call.arguments), at: Date.now() },
+  ]);
+}
+
+/**
+ * Attach the output a function call was answered with
+ */
+export function setFunctionOutput(
+  functionCalls: FunctionCallRecord[] | undefined,
+  callId: string | undefined,
+  output: string
+): FunctionCallRecord[] {
+  return fitToStorage(
+    (functionCalls || []).map((call) => (callId && call.callId === callId ? { ...call, output: clipText(output) } : call))
+  );
+}
+
+/**
+ * Hide all but the first six digits of a caller's number, as the dashboard shows it
+ */
+export function toPartialNumber(callerNumber: string): string {
+  const digits = callerNumber.replace(/\D/g, '');
+  return digits.length >= 10 ? `${digits.slice(0, 6)}xxxx` : `${digits}xxxx`;
+}
+
+function toSummary(row: CallRow): CallHistorySummary {
+  return {
+    callSid: row.call_sid,
+    partialNumber: row.partial_number ?? undefined,
+    calledNumber: row.called_number ?? undefined,
+    routingReason: (row.routing_reason ?? undefined) as CallHistorySummary['routingReason'],
+    claimedBy: row.claimed_by ?? undefined,
+    claimedByName: row.claimed_by_name ?? undefined,
+    transferStatus: (row.transfer_status ?? undefined) as CallHistorySummary['transferStatus'],
+    startedAt: row.started_at,
+    endedAt: row.ended_at,
+    durationMs: row.duration_ms,
+    summary: row.summary ? JSON.parse(row.summary) : undefined,
+  };
+}
+
+// Text searched by /calls?q=: every transcript line, the functions called and the summary
+function buildSearchText(record: CallHistoryRecord): string {
+  return [
+    ...record.transcript.map((entry) => entry.text),
+    ...record.functionCalls.map((call) => call.name),
+    ...(record.summary
+      ? [record.summary.reasonForCall, record.summary.patient || '', ...record.summary.medications]
+      : []),
+  ].join('\n');
+}
+
+/**
+ * Save a finished call. A call whose stream restarts (e.g. an operator taking over
+ * from the assistant) is saved again, replacing the earlier record.
+ */
+export async function saveCallRecord(db: D1Database, record: CallHistoryRecord): Promise<void> {
+  await db.prepare(
+    `INSERT INTO calls (call_sid, partial_number, called_number, routing_reason, claimed_by, claimed_by_name,
+       transfer_status, started_at, ended_at, duration_ms, summary, transcript, transcript_truncated, function_calls,
+       search_text)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(call_sid) DO UPDATE SET
+       partial_number = excluded.partial_number,
+       called_number = excluded.called_number,
+       routing_reason = excluded.routing_reason,
+       claimed_by = excluded.claimed_by,
+       claimed_by_name = excluded.claimed_by_name,
+       transfer_status = excluded.transfer_status,
+       started_at = excluded.started_at,
+       ended_at = excluded.ended_at,
+       duration_ms = excluded.duration_ms,
+       summary = COALESCE(excluded.summary, calls.summary),
+       transcript = excluded.transcript,
+       transcript_truncated = excluded.transcript_truncated,
+       function_calls = excluded.function_calls,
+       search_text = excluded.search_text`
+  ).bind(
+    record.callSid,
+    record.partialNumber ?? null,
+    record.calledNumber ?? null,
+    record.routingReason ?? null,
+    record.claimedBy ?? null,
+    record.claimedByName ?? null,
+    record.transferStatus ?? null,
+    record.startedAt,
+    record.endedAt,
+    record.durationMs,
+    record.summary ? JSON.stringify(record.summary) : null,
+    JSON.stringify(record.transcript),
+    record.transcriptTruncated ? 1 : 0,
+    JSON.stringify(record.functionCalls),
+    buildSearchText(record)
+  ).run();
+}
+
+/**
+ * List finished calls, newest first, optionally only those whose transcript mentions `query`
+ */
+export async function listCallRecords(
+  db: D1Database,
+  options: { query?: string; limit?: number; offset?: number }
+): Promise<CallHistoryPage> {
+  const limit = Math.min(Math.max(Math.floor(options.limit || DEFAULT_PAGE_SIZE), 1), MAX_PAGE_SIZE);
+  const offset = Math.max(Math.floor(options.offset || 0), 0);
+  const query = options.query?.trim();
+
+  // LIKE wildcards in the search text are matched literally
+  const where = query ? `WHERE search_text LIKE ? ESCAPE '\\'` : '';
+  const params = query ? [`%${query.replace(/[\\%_]/g, (c) => `\\${c}`)}%`] : [];
+
+  const [rows, count] = await Promise.all([
+    db.prepare(`SELECT ${SUMMARY_COLUMNS} FROM calls ${where} ORDER BY started_at DESC LIMIT ? OFFSET ?`)
+      .bind(...params, limit, offset)
+      .all<CallRow>(),
+    db.prepare(`SELECT COUNT(*) AS total FROM calls ${where}`)
+      .bind(...params)
+      .first<{ total: number }>(),
+  ]);
+
+  return {
+    calls: rows.results.map(toSummary),
+    total: count?.total ?? 0,
+    limit,
+    offset,
+  };
+}
+
+/**
+ * Load one finished call with its transcript and function calls
+ */
+export async function getCallRecord(db: D1Database, callSid: string): Promise<CallHistoryRecord | null> {
+  const row = await db.prepare(`SELECT ${SUMMARY_COLUMNS}, transcript, transcript_truncated, function_calls FROM calls WHERE call_sid = ?`)
+    .bind(callSid)
+    .first<CallRow>();
+  if (!row) return null;
+
+  return {
+    ...toSummary(row),
+    transcript: JSON.parse(row.transcript || '[]'),
+    transcriptTruncated: row.transcript_truncated === 1,
+    functionCalls: JSON.parse(row.function_calls || '[]'),
+  };
+}
@@ -0,0 +1,65 @@
+// Call metadata carried into the media stream as <Stream> custom parameters
+import { CallMetadata, CallRoutingReason } from './types';
+
+const METADATA_KEYS: Array<keyof CallMetadata> = [
+  'callerNumber',
+  'calledNumber',
+  'claimedBy',
+  'claimedByName',
+  'routingReason',
+  'locale',
+];
+
+const ROUTING_REASONS: CallRoutingReason[] = ['operator_claim', 'auto_answer', 'schedule', 'overflow'];
+
+/**
+ * Turn call metadata into <Parameter> name/value pairs, leaving out anything unset
+ */
+export function toStreamParameters(metadata: CallMetadata): Record<string, string> {
+  const parameters: Record<string, string> = {};
+  for (const key of METADATA_KEYS) {
+    const value = metadata[key];
+    if (value) {
+      parameters[key] = value;
+    }
+  }
+  return parameters;
+}
+
+/**
+ * Read call metadata back out of a Twilio 'start' event's customParameters,
+ * ignoring anything we did not send
+ */
+export function parseStreamParameters(customParameters: unknown): CallMetadata {
+  if (!customParameters || typeof customParameters !== 'object') {
+    return {};
+  }
+
+  const params = customParameters as Record<string, unknown>;
+  const text = (key: keyof CallMetadata) => (typeof params[key] === 'string' && params[key] ? params[key] as string : undefined);
+  const routingReason = ROUTING_REASONS.find((reason) => reason === params.routingReason);
+
+  return {
+    callerNumber: text('callerNumber'),
+    calledNumber: text('calledNumber'),
+    claimedBy: text('claimedBy'),
+    claimedByName: text('claimedByName'),
+    routingReason,
+    locale: text('locale'),
+  };
+}
+
+/**
+ * Summarise call metadata as a system note for the assistant
+ */
+export function describeCallMetadata(metadata: CallMetadata): string | null {
+  const details: string[] = [];
+  if (metadata.callerNumber) details.push(`Caller number: ${metadata.callerNumber}`);
+  if (metadata.claimedByName || metadata.claimedBy) {
+    details.push(`Operator on the call: ${metadata.claimedByName || metadata.claimedBy}`);
+  }
+  if (metadata.routingReason) details.push(`Routing: ${metadata.routingReason.replace('_', ' ')}`);
+  if (metadata.locale) details.push(`Caller locale: ${metadata.locale}`);
+
+  return details.length > 0 ? `Call details - ${details.join('; ')}.` : null;
+}
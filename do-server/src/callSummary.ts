@@ -0,0 +1,212 @@
+// Call summaries: a short handoff note for the pharmacist taking over from the
+// assistant, and a structured summary once the call ends
+import {
+  CallDisposition,
+  CallTransferStatus,
+  FunctionCallRecord,
+  PostCallSummary,
+  TranscriptEntry,
+  WorkerEnv,
+} from './types';
+import { MAX_STORED_VALUE_BYTES, serializedBytes } from './storageLimits';
+
+const SUMMARY_MODEL = 'gpt-4o-mini';
+// Longest single transcript line. JSON can spend up to 6 bytes on a character,
+// so one line always fits in the stored transcript with room for others.
+const MAX_TRANSCRIPT_LINE_CHARS = Math.floor(MAX_STORED_VALUE_BYTES / 8);
+// Lines quoted when the summary model cannot be reached
+const FALLBACK_EXCERPT_ENTRIES = 6;
+
+const CALL_DISPOSITIONS: CallDisposition[] = ['resolved', 'follow_up', 'transferred', 'unresolved'];
+
+const POST_CALL_PROMPT = `You summarise finished pharmacy phone calls for the pharmacy team. Reply with a JSON object with these keys:
+- "reasonForCall": one sentence on why the caller phoned
+- "patient": the patient's name or identifier if the caller gave one, otherwise null
+- "medications": names of medications discussed, as an array of strings
+- "actionsPromised": what the pharmacy promised to do, as an array of short strings
+- "followUpNeeded": true if someone at the pharmacy still needs to act
+- "followUpNotes": what that follow-up is, or null
+- "disposition": one of "resolved", "follow_up", "transferred", "unresolved"
+Only use facts stated in the call.`;
+
+const TRANSCRIPT_LABELS: Record<TranscriptEntry['role'], string> = {
+  caller: 'Caller',
+  assistant: 'Assistant',
+  operator: 'Operator note',
+};
+
+/**
+ * Append a finished turn to a transcript. Once the stored transcript would pass
+ * the storage size cap the oldest entries are dropped, and `truncated` says so.
+ */
+export function appendTranscript(
+  transcript: TranscriptEntry[] | undefined,
+  role: TranscriptEntry['role'],
+  text: string
+): { transcript: TranscriptEntry[]; truncated: boolean } {
+  const line = text.trim();
+  const clipped = line.length > MAX_TRANSCRIPT_LINE_CHARS;
+  const entries = [
+    ...(transcript || []),
+    { role, text: clipped ? line.slice(0, MAX_TRANSCRIPT_LINE_CHARS) : line, at: Date.now() },
+  ];
+
+  // Each entry costs its own JSON plus a separating comma
+  const sizes = entries.map((entry) => serializedBytes(entry) + 1);
+  let size = sizes.reduce((total, entrySize) => total + entrySize, 2);
+  let dropped = 0;
+  // The newest entry always fits on its own once clipped
+  while (size > MAX_STORED_VALUE_BYTES && dropped < entries.length - 1) {
+    size -= sizes[dropped];
+    dropped++;
+  }
+
+  return { transcript: entries.slice(dropped), truncated: clipped || dropped > 0 };
+}
+
+function formatTranscript(transcript: TranscriptEntry[]): string {
+  return transcript
+    .map((entry) => `${TRANSCRIPT_LABELS[entry.role]}: ${entry.text}`)
+    .join('\n');
+}
+
+function fallbackSummary(transcript: TranscriptEntry[], reason: string): string {
+  const excerpt = formatTranscript(transcript.slice(-FALLBACK_EXCERPT_ENTRIES));
+  return excerpt
+    ? `Transfer reason: ${reason}\nLast exchanges:\n${excerpt}`
+    : `Transfer reason: ${reason}\nNo conversation was transcribed before the transfer.`;
+}
+
+/**
+ * Send a chat completion request, returning the reply text or null if it failed
+ */
+async function createChatCompletion(env: WorkerEnv, body: Record<string, unknown>): Promise<string | null> {
+  const response = await fetch('https://api.openai.com/v1/chat/completions', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${env.OPENAI_API_KEY}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ model: SUMMARY_MODEL, temperature: 0.2, ...body }),
+  });
+
+  if (!response.ok) {
+    console.error('Call summary request failed:', { status: response.status });
+    return null;
+  }
+
+  const result = await response.json() as { choices?: Array<{ message?: { content?: string } }> };
+  return result.choices?.[0]?.message?.content?.trim() || null;
+}
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map((item) => item.trim())
+    : [];
+}
+
+function toOptionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Check the model's JSON against the summary shape, filling in anything missing
+ */
+function parsePostCallSummary(raw: string): PostCallSummary | null {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    console.error('Post-call summary was not valid JSON');
+    return null;
+  }
+
+  const reasonForCall = toOptionalString(data.reasonForCall);
+  if (!reasonForCall) return null;
+
+  const followUpNeeded = data.followUpNeeded === true;
+  const disposition = CALL_DISPOSITIONS.includes(data.disposition as CallDisposition)
+    ? data.disposition as CallDisposition
+    : followUpNeeded ? 'follow_up' : 'unresolved';
+
+  return {
+    reasonForCall,
+    patient: toOptionalString(data.patient),
+    medications: toStringList(data.medications),
+    actionsPromised: toStringList(data.actionsPromised),
+    followUpNeeded,
+    followUpNotes: toOptionalString(data.followUpNotes),
+    disposition,
+    generatedAt: Date.now(),
+  };
+}
+
+/**
+ * Produce the structured end-of-call summary. Returns null when nothing was
+ * transcribed or the model could not be reached; the call is still saved without one.
+ */
+export async function summarizeFinishedCall(
+  env: WorkerEnv,
+  transcript: TranscriptEntry[],
+  functionCalls: FunctionCallRecord[],
+  transferStatus?: CallTransferStatus
+): Promise<PostCallSummary | null> {
+  if (transcript.length === 0 || !env.OPENAI_API_KEY) {
+    return null;
+  }
+
+  const details = [
+    `Transcript:\n${formatTranscript(transcript)}`,
+    functionCalls.length > 0
+      ? `Lookups made:\n${functionCalls.map((call) => `${call.name}(${call.arguments}) -> ${call.output ?? 'no result'}`).join('\n')}`
+      : '',
+    transferStatus ? `The call was handed to a pharmacist (transfer status: ${transferStatus}).` : '',
+  ].filter(Boolean).join('\n\n');
+
+  try {
+    const reply = await createChatCompletion(env, {
+      response_format: { type: 'json_object' },
+      messages: [
+        { role: 'system', content: POST_CALL_PROMPT },
+        { role: 'user', content: details },
+      ],
+    });
+    return reply ? parsePostCallSummary(reply) : null;
+  } catch (error) {
+    console.error('Error generating post-call summary:', error);
+    return null;
+  }
+}
+
+/**
+ * Summarise a call transcript for a human pharmacist. Falls back to the reason
+ * and the last few lines if the model call fails, so a handoff is never blocked.
+ */
+export async function summarizeTranscript(
+  env: WorkerEnv,
+  transcript: TranscriptEntry[],
+  reason: string
+): Promise<string> {
+  if (transcript.length === 0 || !env.OPENAI_API_KEY) {
+    return fallbackSummary(transcript, reason);
+  }
+
+  try {
+    const summary = await createChatCompletion(env, {
+      messages: [
+        {
+          role: 'system',
+          content: 'You summarise pharmacy phone calls for the pharmacist taking over. In at most four short sentences, say who is calling, what they need, what has been done so far and anything still unresolved.',
+        },
+        {
+          role: 'user',
+          content: `Reason for transfer: ${reason}\n\nTranscript:\n${formatTranscript(transcript)}`,
+        },
+      ],
+    });
+    return summary || fallbackSummary(transcript, reason);
+  } catch (error) {
+    console.error('Error generating call summary:', error);
+    return fallbackSummary(transcript, reason);
+  }
+}
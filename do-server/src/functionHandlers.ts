@@ -36,4 +36,32 @@ functions.push({
   },
 });
 
+functions.push({
+  schema: {
+    name: "transfer_to_pharmacist",
+    type: "function",
+    description: "Transfer the caller to a human pharmacist. Use this when the caller asks for a person, or needs advice the available tools cannot give.",
+    parameters: {
+      type: "object",
+      properties: {
+        reason: {
+          type: "string",
+          description: "One sentence on why the caller needs a pharmacist"
+        }
+      },
+      required: ["reason"]
+    }
+  },
+  handler: async (args: any, context) => {
+    if (!context?.transferToPharmacist) {
+      return JSON.stringify({ success: false, message: "Transfers are not available on this call" });
+    }
+
+    const reason = typeof args.reason === "string" && args.reason.trim()
+      ? args.reason.trim()
+      : "Caller asked for a pharmacist";
+    return JSON.stringify(await context.transferToPharmacist(reason));
+  },
+});
+
 export default functions; 
\ No newline at end of file
@@ -1,11 +1,57 @@
-import { WorkerEnv } from './types';
+import {
+  ActiveInboundFlow,
+  AssistantSessionConfig,
+  BusinessSchedule,
+  CallFlowDefinition,
+  CallMetadata,
+  CallTransferStatus,
+  DigitVerificationResult,
+  NumberRouting,
+  Operator,
+  OverflowAction,
+  OverflowConfig,
+  QueueEntry,
+  QueueRemovalReason,
+  RoutingMode,
+  SessionConfigProfile,
+  WorkerEnv,
+} from './types';
 import functions from './functionHandlers';
-import { SessionManager } from './sessionManager';
+import { SessionManager, OPERATOR_ID_HEADER, OPERATOR_NAME_HEADER, SESSION_NAME_HEADER } from './sessionManager';
+import { validateTwilioRequest } from './twilioSignature';
+import { buildPublicUrl } from './publicUrl';
+import { authenticateOperator, getRequestOperator, issueOperatorToken } from './operatorAuth';
+import { evaluateBusinessSchedule } from './businessHours';
+import { DEFAULT_CALL_FLOW, resolveCallFlow } from './callFlows';
+import {
+  DEFAULT_CLOSED_MESSAGE,
+  OVERFLOW_VOICEMAIL_MESSAGE,
+  buildForwardTwiml,
+  buildGreetingTwiml,
+  buildHangupTwiml,
+  buildHoldTwiml,
+  buildStreamTwiml,
+  buildVoicemailTwiml,
+} from './twimlResponses';
+import { updateLiveCall } from './twilioCalls';
+import { buildTemplateVariables, DEFAULT_GREETING_TEMPLATE, renderPromptTemplate } from './promptTemplates';
+import { DEFAULT_PROFILE, isValidProfileName } from './sessionConfig';
+import { getCallRecord, listCallRecords, toPartialNumber } from './callHistory';
 import { Hono } from 'hono';
 import { upgradeWebSocket } from 'hono/cloudflare-workers';
 
 export { SessionManager };
 
+// Twilio CallStatus values that mean the call is over
+const TERMINAL_CALL_STATUSES = ['completed', 'busy', 'failed', 'no-answer', 'canceled'];
+
+const DEFAULT_OVERFLOW_MAX_WAIT_MS = 300000; // 5 minutes
+const OVERFLOW_ACTIONS: OverflowAction[] = ['ai', 'voicemail', 'forward'];
+
+const DEFAULT_LOCALE = 'en-US';
+
+const TRANSFER_UNANSWERED_MESSAGE = 'Sorry, no pharmacist is available right now. Please leave a message after the tone and we will call you back.';
+
 export default {
   async fetch(request: Request, env: WorkerEnv, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
@@ -29,12 +75,58 @@ export default {
         case '/public-url':
           return handlePublicUrl(env, corsHeaders);
 
-        case '/twiml':
-          return handleTwiml(env, corsHeaders);
+        case '/twiml': {
+          const rejection = await rejectInvalidTwilioSignature(request, env, corsHeaders);
+          if (rejection) return rejection;
+          return handleTwiml(request, env, corsHeaders);
+        }
 
         case '/tools':
           return handleTools(corsHeaders);
 
+        case '/auth/login':
+          if (request.method === 'POST') {
+            return handleOperatorLogin(request, env, corsHeaders);
+          }
+          return new Response('Method Not Allowed', { status: 405, headers: corsHeaders });
+
+        case '/auth/session':
+          return handleOperatorSession(request, env, corsHeaders);
+
+        case '/queue':
+          if (request.method === 'GET') {
+            return handleQueueList(request, env, corsHeaders);
+          }
+          return new Response('Method Not Allowed', { status: 405, headers: corsHeaders });
+
+        case '/queue/subscribe':
+          return handleQueueSubscribe(request, env);
+
+        case '/routing':
+          if (request.method === 'GET') {
+            return handleRoutingGet(request, env, corsHeaders);
+          } else if (request.method === 'PUT') {
+            return handleRoutingPut(request, env, corsHeaders);
+          }
+          return new Response('Method Not Allowed', { status: 405, headers: corsHeaders });
+
+        case '/routing/active':
+          return handleRoutingActive(request, env, corsHeaders);
+
+        case '/schedule':
+          if (request.method === 'GET') {
+            return handleScheduleGet(request, env, corsHeaders);
+          } else if (request.method === 'PUT') {
+            return handleSchedulePut(request, env, corsHeaders);
+          }
+          return new Response('Method Not Allowed', { status: 405, headers: corsHeaders });
+
+        case '/prompt-preview':
+          if (request.method === 'POST') {
+            return handlePromptPreview(request, env, corsHeaders);
+          }
+          return new Response('Method Not Allowed', { status: 405, headers: corsHeaders });
+
         case '/twilio/credentials':
           return handleTwilioCredentials(env, corsHeaders);
 
@@ -56,32 +148,94 @@ export default {
           return handleHoldMusicFiles(env, corsHeaders);
 
         case '/hold-music/stream':
-          return handleHoldMusicStream(env, corsHeaders);
+          return handleHoldMusicStream(url, env, corsHeaders);
+
+        case '/flows':
+          if (request.method === 'GET') {
+            return handleFlowGet(request, env, corsHeaders);
+          } else if (request.method === 'PUT') {
+            return handleFlowPut(request, env, corsHeaders);
+          }
+          return new Response('Method Not Allowed', { status: 405, headers: corsHeaders });
+
+        case '/session-config':
+          if (request.method === 'GET') {
+            return handleSessionConfigGet(request, env, corsHeaders);
+          } else if (request.method === 'PUT') {
+            return handleSessionConfigPut(request, env, corsHeaders);
+          }
+          return new Response('Method Not Allowed', { status: 405, headers: corsHeaders });
+
+        case '/session-config/live':
+          if (request.method === 'POST') {
+            return handleLiveSessionConfig(request, env, corsHeaders);
+          }
+          return new Response('Method Not Allowed', { status: 405, headers: corsHeaders });
+
+        case '/calls':
+        case '/calls/search':
+          if (request.method === 'GET') {
+            return handleCallHistoryList(request, env, corsHeaders);
+          }
+          return new Response('Method Not Allowed', { status: 405, headers: corsHeaders });
 
         case '/incoming-call':
           if (request.method === 'POST') {
+            const rejection = await rejectInvalidTwilioSignature(request, env, corsHeaders);
+            if (rejection) return rejection;
             return handleIncomingCall(request, env, corsHeaders);
           }
           return new Response('Method Not Allowed', { status: 405, headers: corsHeaders });
 
+        case '/call-status':
+          if (request.method === 'POST') {
+            const rejection = await rejectInvalidTwilioSignature(request, env, corsHeaders);
+            if (rejection) return rejection;
+            return handleCallStatus(request, env, corsHeaders);
+          }
+          return new Response('Method Not Allowed', { status: 405, headers: corsHeaders });
+
         case '/claim-call':
           if (request.method === 'POST') {
             return handleClaimCall(request, env, corsHeaders);
           }
           return new Response('Method Not Allowed', { status: 405, headers: corsHeaders });
 
+        case '/transfer-call':
+          if (request.method === 'POST') {
+            return handleTransferCall(request, env, corsHeaders);
+          }
+          return new Response('Method Not Allowed', { status: 405, headers: corsHeaders });
+
+        case '/transfer-status':
+          if (request.method === 'POST') {
+            const rejection = await rejectInvalidTwilioSignature(request, env, corsHeaders);
+            if (rejection) return rejection;
+            return handleTransferStatus(request, env, corsHeaders);
+          }
+          return new Response('Method Not Allowed', { status: 405, headers: corsHeaders });
+
         case '/connect-call':
           if (request.method === 'POST') {
+            const rejection = await rejectInvalidTwilioSignature(request, env, corsHeaders);
+            if (rejection) return rejection;
             return handleConnectCall(request, env, corsHeaders);
           }
           return new Response('Method Not Allowed', { status: 405, headers: corsHeaders });
 
         default:
+          // One finished call from the history store
+          if (path.startsWith('/calls/') && request.method === 'GET') {
+            return handleCallHistoryDetail(request, env, decodeURIComponent(path.slice('/calls/'.length)), corsHeaders);
+          }
+
           // Handle broadcast registry routes
           if (path.startsWith('/broadcast-registry/')) {
-            const broadcastRegistryId = env.SESSION_MANAGER.idFromName('broadcast-registry');
-            const broadcastRegistry = env.SESSION_MANAGER.get(broadcastRegistryId);
-            
+            const operator = await getRequestOperator(request, env);
+            if (!operator) {
+              return new Response('Unauthorized', { status: 401, headers: corsHeaders });
+            }
+
             // Strip the /broadcast-registry prefix and forward the request
             const strippedPath = path.replace('/broadcast-registry', '');
             const modifiedUrl = new URL(request.url);
@@ -93,7 +247,7 @@ export default {
               body: request.body,
             });
             
-            return broadcastRegistry.fetch(modifiedRequest);
+            return fetchSessionManager(env, 'broadcast-registry', modifiedRequest);
           }
 
           // Check if this is a WebSocket upgrade request
@@ -128,17 +282,100 @@ function handlePublicUrl(env: WorkerEnv, corsHeaders: Record<string, string>): R
   );
 }
 
-function handleTwiml(env: WorkerEnv, corsHeaders: Record<string, string>): Response {
-  const callbackUrl = new URL(env.PUBLIC_URL);
-  callbackUrl.pathname = '/incoming-call';
+/**
+ * Verify X-Twilio-Signature on a webhook; returns a 403 response if it fails
+ */
+async function rejectInvalidTwilioSignature(request: Request, env: WorkerEnv, corsHeaders: Record<string, string>): Promise<Response | null> {
+  const result = await validateTwilioRequest(request, env.TWILIO_AUTH_TOKEN, env.PUBLIC_URL);
+  if (result.valid) {
+    return null;
+  }
+
+  const url = new URL(request.url);
+  console.warn('Rejected Twilio webhook:', {
+    event: 'twilio_signature_rejected',
+    path: url.pathname,
+    method: request.method,
+    reason: result.reason,
+    timestamp: Date.now()
+  });
+
+  return new Response('Forbidden', { status: 403, headers: corsHeaders });
+}
+
+/**
+ * Handle operator login - exchange credentials for a signed session token
+ */
+async function handleOperatorLogin(request: Request, env: WorkerEnv, corsHeaders: Record<string, string>): Promise<Response> {
+  try {
+    const body = await request.json() as { operatorId?: string; password?: string };
+
+    if (!body.operatorId || !body.password) {
+      return new Response(
+        JSON.stringify({ success: false, message: 'Missing operator ID or password' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      );
+    }
+
+    const operator = authenticateOperator(env, body.operatorId, body.password);
+    if (!operator) {
+      console.warn('Failed operator login:', { operatorId: body.operatorId, timestamp: Date.now() });
+      return new Response(
+        JSON.stringify({ success: false, message: 'Invalid operator ID or password' }),
+        { status: 401, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      );
+    }
+
+    const { token, expiresAt } = await issueOperatorToken(env, operator);
+    console.log('Operator logged in:', { operatorId: operator.id });
+
+    return new Response(
+      JSON.stringify({ success: true, token, expiresAt, operator }),
+      { headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  } catch (error) {
+    console.error('Error logging in operator:', error);
+    return new Response(
+      JSON.stringify({ success: false, message: 'Internal server error' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  }
+}
+
+/**
+ * Handle operator session check - return the operator for a still-valid token
+ */
+async function handleOperatorSession(request: Request, env: WorkerEnv, corsHeaders: Record<string, string>): Promise<Response> {
+  const operator = await getRequestOperator(request, env);
+  if (!operator) {
+    return new Response(
+      JSON.stringify({ valid: false }),
+      { status: 401, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  }
+
+  return new Response(
+    JSON.stringify({ valid: true, operator }),
+    { headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+  );
+}
+
+async function handleTwiml(request: Request, env: WorkerEnv, corsHeaders: Record<string, string>): Promise<Response> {
+  const to = await getFormParam(request, 'To');
+  const flow = to ? await getCallFlow(env, to) : DEFAULT_CALL_FLOW;
 
-  const twimlContent = `<?xml version="1.0" encoding="UTF-8"?>
-<Response>
-  <Say>You have reached the Fluffhead Pharmacy demo system. Please wait while we connect you to an available agent.</Say>
-  <Redirect>${callbackUrl.toString()}</Redirect>
-</Response>`;
+  // Outside business hours, skip the agent greeting entirely
+  const active = to ? await resolveInboundFlow(env, to) : null;
+  if (active?.flow === 'closed') {
+    return new Response(buildVoicemailTwiml(active.closedMessage || DEFAULT_CLOSED_MESSAGE, flow), {
+      headers: {
+        'Content-Type': 'text/xml',
+        ...corsHeaders,
+      },
+    });
+  }
 
-  return new Response(twimlContent, {
+  return new Response(buildGreetingTwiml(env.PUBLIC_URL, flow), {
     headers: {
       'Content-Type': 'text/xml',
       ...corsHeaders,
@@ -247,6 +484,9 @@ async function handleTwilioNumbersPost(request: Request, env: WorkerEnv, corsHea
     const auth = btoa(`${env.TWILIO_ACCOUNT_SID}:${env.TWILIO_AUTH_TOKEN}`);
     const formData = new URLSearchParams();
     formData.append('VoiceUrl', voiceUrl);
+    // Report call status changes so hang-ups while waiting can be detected
+    formData.append('StatusCallback', buildPublicUrl(env.PUBLIC_URL, '/call-status').toString());
+    formData.append('StatusCallbackMethod', 'POST');
 
     const response = await fetch(
       `https://api.twilio.com/2010-04-01/Accounts/${env.TWILIO_ACCOUNT_SID}/IncomingPhoneNumbers/${phoneNumberSid}.json`,
@@ -376,10 +616,15 @@ async function handleHoldMusicFiles(env: WorkerEnv, corsHeaders: Record<string,
   }
 }
 
-async function handleHoldMusicStream(env: WorkerEnv, corsHeaders: Record<string, string>): Promise<Response> {
+async function handleHoldMusicStream(url: URL, env: WorkerEnv, corsHeaders: Record<string, string>): Promise<Response> {
   try {
-    // Use the MP3 file which is more compatible with Twilio
-    const audioFile = await env.TRACKS.get('breakaway.mp3');
+    // Default to the MP3 file which is more compatible with Twilio
+    const track = url.searchParams.get('track') || DEFAULT_CALL_FLOW.holdTrack;
+    if (!/^[\w.-]+\.(mp3|wav)$/.test(track)) {
+      return new Response('Unsupported hold music track', { status: 400, headers: corsHeaders });
+    }
+
+    const audioFile = await env.TRACKS.get(track);
     
     if (!audioFile) {
       return new Response('Hold music file not found', { 
@@ -394,7 +639,7 @@ async function handleHoldMusicStream(env: WorkerEnv, corsHeaders: Record<string,
     // Stream the audio file with appropriate headers for Twilio
     return new Response(audioData, {
       headers: {
-        'Content-Type': 'audio/mpeg',
+        'Content-Type': track.endsWith('.wav') ? 'audio/wav' : 'audio/mpeg',
         'Content-Length': audioData.byteLength.toString(),
         'Cache-Control': 'public, max-age=3600',
         'Accept-Ranges': 'bytes',
@@ -428,15 +673,41 @@ async function handleWebSocket(request: Request, env: WorkerEnv, path: string):
     return new Response('Bad Request', { status: 400 });
   }
 
+  // Dashboard log sockets require a valid operator session token
+  let forwardedRequest = request;
+  if (type === 'logs') {
+    const operator = await getRequestOperator(request, env);
+    if (!operator) {
+      console.log('Rejected logs WebSocket without valid operator token');
+      return new Response('Unauthorized', { status: 401 });
+    }
+
+    // Tell the session who is on this socket (set here so clients cannot supply it)
+    forwardedRequest = new Request(request);
+    forwardedRequest.headers.set(OPERATOR_ID_HEADER, operator.id);
+    forwardedRequest.headers.set(OPERATOR_NAME_HEADER, encodeURIComponent(operator.name));
+  }
+
   // Extract CallSid for session routing
   const sessionId = extractSessionId(request, type, parts);
   console.log('Using session ID:', sessionId);
   
-  const sessionManagerId = env.SESSION_MANAGER.idFromName(sessionId);
+  // Forward the WebSocket request to the Durable Object
+  return fetchSessionManager(env, sessionId, forwardedRequest);
+}
+
+/**
+ * Forward a request to the named SessionManager instance, tagging it with the
+ * name so the Durable Object knows which kind of session it holds
+ */
+async function fetchSessionManager(env: WorkerEnv, name: string, request: Request): Promise<Response> {
+  const sessionManagerId = env.SESSION_MANAGER.idFromName(name);
   const sessionManager = env.SESSION_MANAGER.get(sessionManagerId);
 
-  // Forward the WebSocket request to the Durable Object
-  return sessionManager.fetch(request);
+  const taggedRequest = new Request(request);
+  taggedRequest.headers.set(SESSION_NAME_HEADER, name);
+
+  return sessionManager.fetch(taggedRequest);
 }
 
 /**
@@ -444,18 +715,12 @@ async function handleWebSocket(request: Request, env: WorkerEnv, path: string):
  * Priority: CallSid from WebSocket subprotocol > CallSid from URL path > CallSid from URL params > CallSid from headers > Generated ID
  */
 function extractSessionId(request: Request, type: string, pathParts?: string[]): string {
+  // Never log the URL: /logs sockets carry the operator's token in the query string
   const url = new URL(request.url);
   
-  console.log('DEBUG: Full URL received:', request.url);
-  console.log('DEBUG: URL pathname:', url.pathname);
-  console.log('DEBUG: URL search params:', url.search);
-  console.log('DEBUG: All search params:', Array.from(url.searchParams.entries()));
-  console.log('DEBUG: Path parts:', pathParts);
-  
   // Try to get CallSid from WebSocket subprotocol header (Sec-WebSocket-Protocol)
   const subprotocol = request.headers.get('Sec-WebSocket-Protocol');
   if (subprotocol) {
-    console.log('DEBUG: WebSocket subprotocol:', subprotocol);
     // Subprotocol format: "call-CA123456789"
     if (subprotocol.startsWith('call-CA')) {
       const callSidFromSubprotocol = subprotocol.substring(5); // Remove "call-" prefix
@@ -508,44 +773,72 @@ async function handleIncomingCall(request: Request, env: WorkerEnv, corsHeaders:
     const formData = await request.formData();
     const callSid = formData.get('CallSid') as string;
     const from = formData.get('From') as string;
+    const to = formData.get('To') as string | null;
     
     if (!callSid || !from) {
       return new Response('Missing required parameters', { status: 400, headers: corsHeaders });
     }
 
     // Extract partial phone number (first 6 digits, last 4 as 'xxxx')
-    const cleanNumber = from.replace(/\D/g, ''); // Remove non-digits
-    const partialNumber = cleanNumber.length >= 10 
-      ? `${cleanNumber.slice(0, 6)}xxxx`
-      : `${cleanNumber}xxxx`;
+    const partialNumber = toPartialNumber(from);
 
     console.log('Incoming call:', { callSid, from, partialNumber });
 
+    // Greeting and hold settings for the dialled number
+    const flow = to ? await getCallFlow(env, to) : DEFAULT_CALL_FLOW;
+    const locale = flow.language || DEFAULT_LOCALE;
+
     // Store the full caller number for verification
-    await storeCallerNumber(env, callSid, from);
+    await storeCallerNumber(env, callSid, from, locale, to);
+
+    // Pick the flow for this number - routing mode, then business hours
+    const active = to ? await resolveInboundFlow(env, to) : null;
+    if (active && active.flow !== 'operator') {
+      // Hours can change while a caller holds, so drop any earlier queue entry
+      await removeQueuedCall(env, callSid, 'rerouted');
+
+      if (active.flow === 'ai') {
+        // Auto-answer goes straight to the AI assistant
+        return handleAutoAnswer(env, callSid, partialNumber, {
+          callerNumber: from,
+          routingReason: active.reason === 'fixed' ? 'auto_answer' : 'schedule',
+          locale,
+          calledNumber: to || undefined
+        }, corsHeaders);
+      }
 
-    // Broadcast to all active frontend sessions
-    await broadcastToAllFrontends(env, {
-      type: 'incoming_call',
-      callSid,
-      partialNumber,
-      timestamp: Date.now()
-    });
+      console.log('Line closed, sending call to voicemail:', { callSid, reason: active.reason });
+      return new Response(buildVoicemailTwiml(active.closedMessage || DEFAULT_CLOSED_MESSAGE, flow), {
+        headers: {
+          'Content-Type': 'text/xml',
+          ...corsHeaders,
+        },
+      });
+    }
 
-    // Return holding TwiML with our R2 hold music
-    let holdMusicUrl = `${env.PUBLIC_URL}/hold-music/stream`;
-    // Force HTTPS for Twilio compatibility
-    holdMusicUrl = holdMusicUrl.replace('http://', 'https://');
-    
-    const twimlContent = `<?xml version="1.0" encoding="UTF-8"?>
-<Response>
-  <Say>Please hold while we connect you.</Say>
-  <Play loop="3">${holdMusicUrl}</Play>
-  <Say>We're still trying to connect you. Please hold.</Say>
-  <Redirect>/incoming-call</Redirect>
-</Response>`;
+    // Track the call in the operator queue
+    const queued = await enqueueCall(env, callSid, partialNumber);
 
-    return new Response(twimlContent, {
+    // Send unanswered calls elsewhere once they have waited too long
+    const overflow = getOverflowConfig(env);
+    if (queued?.entry && Date.now() - queued.entry.enqueuedAt >= overflow.maxWaitMs) {
+      return handleCallOverflow(env, callSid, overflow, { callerNumber: from, routingReason: 'overflow', locale, calledNumber: to || undefined }, corsHeaders);
+    }
+
+    // Broadcast to all active frontend sessions - only on the first pass, not
+    // on every hold-loop redirect back to /incoming-call
+    if (!queued || queued.added) {
+      await broadcastToAllFrontends(env, {
+        type: 'incoming_call',
+        callSid,
+        partialNumber,
+        holdPosition: queued?.entry?.holdPosition,
+        timestamp: Date.now()
+      });
+    }
+
+    // Return holding TwiML with our R2 hold music
+    return new Response(buildHoldTwiml(env.PUBLIC_URL, flow), {
       headers: {
         'Content-Type': 'text/xml',
         ...corsHeaders,
@@ -557,20 +850,178 @@ async function handleIncomingCall(request: Request, env: WorkerEnv, corsHeaders:
   }
 }
 
+/**
+ * Read overflow rules from the environment, falling back to the AI assistant after 5 minutes
+ */
+function getOverflowConfig(env: WorkerEnv): OverflowConfig {
+  const maxWaitMs = Number(env.OVERFLOW_MAX_WAIT_MS);
+  const action = OVERFLOW_ACTIONS.find((a) => a === env.OVERFLOW_ACTION) || 'ai';
+
+  return {
+    maxWaitMs: maxWaitMs > 0 ? maxWaitMs : DEFAULT_OVERFLOW_MAX_WAIT_MS,
+    action,
+    forwardNumber: env.OVERFLOW_FORWARD_NUMBER,
+  };
+}
+
+/**
+ * Handle a call that waited past the maximum - pull it from the queue and
+ * route it to the AI assistant, voicemail, or a fallback number
+ */
+async function handleCallOverflow(
+  env: WorkerEnv,
+  callSid: string,
+  overflow: OverflowConfig,
+  metadata: CallMetadata,
+  corsHeaders: Record<string, string>
+): Promise<Response> {
+  let action = overflow.action;
+  if (action === 'forward' && !/^\+?\d{7,15}$/.test(overflow.forwardNumber || '')) {
+    console.error('Invalid OVERFLOW_FORWARD_NUMBER, using voicemail instead');
+    action = 'voicemail';
+  }
+
+  console.log('Call overflow:', { callSid, action, maxWaitMs: overflow.maxWaitMs });
+
+  await removeQueuedCall(env, callSid, 'overflow');
+  await broadcastToAllFrontends(env, {
+    type: 'call_overflow',
+    callSid,
+    action,
+    timestamp: Date.now()
+  });
+
+  let twimlContent: string;
+  switch (action) {
+    case 'ai':
+      // Connect straight to the assistant, bypassing operator claim
+      await markCallAutoAnswered(env, callSid);
+      twimlContent = buildStreamTwiml(env.PUBLIC_URL, callSid, metadata);
+      break;
+
+    case 'forward':
+      twimlContent = buildForwardTwiml(overflow.forwardNumber || '');
+      break;
+
+    case 'voicemail':
+    default:
+      twimlContent = buildVoicemailTwiml(OVERFLOW_VOICEMAIL_MESSAGE);
+      break;
+  }
+
+  return new Response(twimlContent, {
+    headers: {
+      'Content-Type': 'text/xml',
+      ...corsHeaders,
+    },
+  });
+}
+
+/**
+ * Handle a call to a number in auto-answer mode - connect it to the AI session
+ * right away. Dashboards still get the live transcript and can take over by
+ * claiming the call as usual.
+ */
+async function handleAutoAnswer(
+  env: WorkerEnv,
+  callSid: string,
+  partialNumber: string,
+  metadata: CallMetadata,
+  corsHeaders: Record<string, string>
+): Promise<Response> {
+  console.log('Auto-answering call:', { callSid, partialNumber, routingReason: metadata.routingReason });
+
+  await markCallAutoAnswered(env, callSid);
+  await broadcastToAllFrontends(env, {
+    type: 'call_auto_answered',
+    callSid,
+    partialNumber,
+    timestamp: Date.now()
+  });
+
+  return new Response(buildStreamTwiml(env.PUBLIC_URL, callSid, metadata), {
+    headers: {
+      'Content-Type': 'text/xml',
+      ...corsHeaders,
+    },
+  });
+}
+
+/**
+ * Read one parameter from a Twilio form-encoded webhook without consuming the body
+ */
+async function getFormParam(request: Request, name: string): Promise<string | null> {
+  if (request.method !== 'POST') {
+    return new URL(request.url).searchParams.get(name);
+  }
+  try {
+    const formData = await request.clone().formData();
+    return formData.get(name) as string | null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Handle Twilio call status callbacks - detect callers hanging up while waiting
+ */
+async function handleCallStatus(request: Request, env: WorkerEnv, corsHeaders: Record<string, string>): Promise<Response> {
+  try {
+    const formData = await request.formData();
+    const callSid = formData.get('CallSid') as string;
+    const callStatus = formData.get('CallStatus') as string;
+
+    if (!callSid || !callStatus) {
+      return new Response('Missing required parameters', { status: 400, headers: corsHeaders });
+    }
+
+    console.log('Call status update:', { callSid, callStatus });
+
+    if (TERMINAL_CALL_STATUSES.includes(callStatus)) {
+      // Only calls still waiting in the queue count as abandoned; claimed calls ended normally
+      const wasWaiting = await removeQueuedCall(env, callSid, 'abandoned');
+      if (wasWaiting) {
+        await markCallAbandoned(env, callSid);
+        await broadcastToAllFrontends(env, {
+          type: 'call_abandoned',
+          callSid,
+          callStatus,
+          timestamp: Date.now()
+        });
+      } else {
+        // Streams also close for takeovers and transfers, so the call only ends here
+        await endCallSession(env, callSid);
+      }
+    }
+
+    return new Response('OK', { status: 200, headers: corsHeaders });
+  } catch (error) {
+    console.error('Error handling call status:', error);
+    return new Response('Internal Server Error', { status: 500, headers: corsHeaders });
+  }
+}
+
 /**
  * Handle call claiming - verify last 4 digits and assign call to session
  */
 async function handleClaimCall(request: Request, env: WorkerEnv, corsHeaders: Record<string, string>): Promise<Response> {
   try {
+    const operator = await getRequestOperator(request, env);
+    if (!operator) {
+      return new Response(
+        JSON.stringify({ success: false, message: 'Operator session expired. Please log in again.' }),
+        { status: 401, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      );
+    }
+
     const body = await request.json() as { 
       callSid: string; 
       lastFourDigits: string; 
-      sessionId: string;
     };
     
-    const { callSid, lastFourDigits, sessionId } = body;
+    const { callSid, lastFourDigits } = body;
 
-    if (!callSid || !lastFourDigits || !sessionId) {
+    if (!callSid || !lastFourDigits) {
       return new Response(
         JSON.stringify({ success: false, message: 'Missing required parameters' }),
         { status: 400, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
@@ -586,33 +1037,93 @@ async function handleClaimCall(request: Request, env: WorkerEnv, corsHeaders: Re
     }
 
     // Verify against the actual caller's last 4 digits
-    const isValidDigits = await verifyLastFourDigits(env, callSid, lastFourDigits);
-    if (!isValidDigits) {
+    const verification = await verifyLastFourDigits(env, callSid, lastFourDigits, operator.id);
+    if (verification.abandoned) {
+      return new Response(
+        JSON.stringify({ success: false, message: 'The caller hung up before the call was answered.' }),
+        { status: 410, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      );
+    }
+
+    if (verification.locked) {
+      if (verification.newlyLocked) {
+        await broadcastToAllFrontends(env, {
+          type: 'incoming_call.locked',
+          callSid,
+          scope: verification.lockedScope,
+          operatorId: verification.lockedScope === 'operator' ? operator.id : undefined,
+          lockedUntil: verification.lockedUntil,
+          timestamp: Date.now()
+        });
+      }
+
+      const retrySeconds = Math.max(1, Math.ceil(((verification.lockedUntil || Date.now()) - Date.now()) / 1000));
+      return new Response(
+        JSON.stringify({
+          success: false,
+          message: `Too many incorrect attempts. Try again in ${retrySeconds} seconds.`,
+          lockedScope: verification.lockedScope,
+          lockedUntil: verification.lockedUntil
+        }),
+        {
+          status: 429,
+          headers: { 'Content-Type': 'application/json', 'Retry-After': String(retrySeconds), ...corsHeaders }
+        }
+      );
+    }
+
+    if (!verification.valid) {
+      const remaining = verification.attemptsRemaining;
+      const message = remaining !== undefined
+        ? `Incorrect digits. ${remaining} attempt${remaining === 1 ? '' : 's'} remaining.`
+        : 'Incorrect digits. Please check the caller number.';
       return new Response(
-        JSON.stringify({ success: false, message: 'Incorrect digits. Please check the caller number.' }),
+        JSON.stringify({ success: false, message, attemptsRemaining: remaining }),
         { status: 400, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
       );
     }
 
-    console.log('Call claimed:', { callSid, sessionId, lastFourDigits });
+    // Atomically claim the call - only the first operator to get here wins
+    const claim = await claimCallAssignment(env, callSid, operator);
+    if (!claim.claimed) {
+      const owner = claim.assignedToName || claim.assignedTo || 'another operator';
+      return new Response(
+        JSON.stringify({
+          success: false,
+          message: `Call already claimed by ${owner}.`,
+          claimedBy: claim.assignedTo,
+          claimedByName: claim.assignedToName
+        }),
+        { status: 409, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      );
+    }
 
-    // Store the call assignment
-    await storeCallAssignment(env, callSid, sessionId);
+    console.log('Call claimed:', { callSid, operatorId: operator.id, autoAnswered: !!verification.autoAnswered });
 
-    // Redirect the live call to WebSocket using Twilio Call Control API
-    const redirectSuccess = await redirectCallToWebSocket(env, callSid, sessionId);
+    // Redirect the live call to WebSocket using Twilio Call Control API. Calls
+    // the AI auto-answered are already streaming, so their session mutes the
+    // assistant and hands the conversation to the operator instead.
+    const redirectSuccess = verification.autoAnswered
+      ? await handOverToOperator(env, callSid, operator)
+      : await redirectCallToWebSocket(env, callSid, operator);
     if (!redirectSuccess) {
+      // Give the call back so another operator can pick it up
+      await releaseCallAssignment(env, callSid, operator.id);
       return new Response(
         JSON.stringify({ success: false, message: 'Failed to redirect call. Call may have ended.' }),
         { status: 500, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
       );
     }
 
+    // Take the call out of the waiting queue
+    await removeQueuedCall(env, callSid, 'claimed');
+
     // Notify other frontends that this call was claimed
     await broadcastToAllFrontends(env, {
       type: 'call_claimed',
       callSid,
-      claimedBy: sessionId,
+      claimedBy: operator.id,
+      claimedByName: operator.name,
       timestamp: Date.now()
     });
 
@@ -621,7 +1132,7 @@ async function handleClaimCall(request: Request, env: WorkerEnv, corsHeaders: Re
         success: true, 
         message: 'Call connected successfully',
         callSid,
-        sessionId
+        operator
       }),
       { headers: { 'Content-Type': 'application/json', ...corsHeaders } }
     );
@@ -634,6 +1145,84 @@ async function handleClaimCall(request: Request, env: WorkerEnv, corsHeaders: Re
   }
 }
 
+/**
+ * Handle an operator taking a live call off the assistant and handing it to a pharmacist
+ */
+async function handleTransferCall(request: Request, env: WorkerEnv, corsHeaders: Record<string, string>): Promise<Response> {
+  const operator = await getRequestOperator(request, env);
+  if (!operator) {
+    return new Response('Unauthorized', { status: 401, headers: corsHeaders });
+  }
+
+  try {
+    const body = await request.json() as { callSid?: string; reason?: string };
+    if (!body.callSid) {
+      return new Response(
+        JSON.stringify({ success: false, message: 'callSid is required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      );
+    }
+
+    const response = await fetchSessionManager(env, `call-${body.callSid}`, new Request('https://dummy.com/transfer', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ reason: body.reason, requestedBy: operator.id })
+    }));
+    console.log('Operator requested transfer to pharmacist:', { callSid: body.callSid, operatorId: operator.id, status: response.status });
+
+    return new Response(
+      JSON.stringify(await response.json()),
+      { status: response.status, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  } catch (error) {
+    console.error('Error transferring call:', error);
+    return new Response(
+      JSON.stringify({ success: false, message: 'Failed to transfer call' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  }
+}
+
+/**
+ * Handle progress on the pharmacist's <Dial>. The <Number> callback says the
+ * pharmacist picked up; the <Dial> action says how it ended - hang up after a
+ * completed call, otherwise hand the caller back to the assistant.
+ */
+async function handleTransferStatus(request: Request, env: WorkerEnv, corsHeaders: Record<string, string>): Promise<Response> {
+  const dialStatus = await getFormParam(request, 'DialCallStatus');
+
+  if (!dialStatus) {
+    // Callbacks from the dialled leg name the caller's call as the parent
+    const parentCallSid = await getFormParam(request, 'ParentCallSid');
+    if (parentCallSid) {
+      await updateTransferOutcome(env, parentCallSid, 'answered');
+    }
+    return new Response('OK', { status: 200, headers: corsHeaders });
+  }
+
+  const callSid = await getFormParam(request, 'CallSid');
+  const answered = dialStatus === 'completed' || dialStatus === 'answered';
+  console.log('Transfer dial finished:', { callSid, dialStatus });
+
+  const outcome = callSid
+    ? await updateTransferOutcome(env, callSid, answered ? 'completed' : 'unanswered')
+    : null;
+
+  let twiml: string;
+  if (answered) {
+    twiml = buildHangupTwiml();
+  } else if (callSid && outcome) {
+    twiml = buildStreamTwiml(env.PUBLIC_URL, callSid, outcome.callMetadata);
+  } else {
+    // The call's session could not be reached, so there is no assistant to go back to
+    twiml = buildVoicemailTwiml(TRANSFER_UNANSWERED_MESSAGE);
+  }
+
+  return new Response(twiml, {
+    headers: { 'Content-Type': 'text/xml', ...corsHeaders }
+  });
+}
+
 /**
  * Handle call connection - connect the verified session to the call WebSocket
  */
@@ -641,30 +1230,23 @@ async function handleConnectCall(request: Request, env: WorkerEnv, corsHeaders:
   try {
     const url = new URL(request.url);
     const callSid = url.searchParams.get('callSid');
-    const sessionId = url.searchParams.get('sessionId');
 
-    if (!callSid || !sessionId) {
+    if (!callSid) {
       return new Response('Missing required parameters', { status: 400, headers: corsHeaders });
     }
 
-    // Verify this session claimed this call
-    const isValidClaim = await verifyCallAssignment(env, callSid, sessionId);
-    if (!isValidClaim) {
+    const operator = await getRequestOperator(request, env);
+    if (!operator) {
       return new Response('Unauthorized', { status: 401, headers: corsHeaders });
     }
 
-    // Generate WebSocket URL for this specific call using path-based routing
-    const wsUrl = new URL(env.PUBLIC_URL);
-    wsUrl.protocol = 'wss:';
-    wsUrl.pathname = `/call/${callSid}`;
+    // Verify this operator claimed this call
+    const isValidClaim = await verifyCallAssignment(env, callSid, operator.id);
+    if (!isValidClaim) {
+      return new Response('Unauthorized', { status: 401, headers: corsHeaders });
+    }
 
-    const twimlContent = `<?xml version="1.0" encoding="UTF-8"?>
-<Response>
-  <Connect>
-    <Stream url="${wsUrl.toString()}" />
-  </Connect>
-  <Say>Call ended</Say>
-</Response>`;
+    const twimlContent = buildStreamTwiml(env.PUBLIC_URL, callSid, await getClaimedCallMetadata(env, callSid, operator));
 
     return new Response(twimlContent, {
       headers: {
@@ -678,16 +1260,613 @@ async function handleConnectCall(request: Request, env: WorkerEnv, corsHeaders:
   }
 }
 
+/**
+ * Handle listing the calls currently waiting in the operator queue
+ */
+async function handleQueueList(request: Request, env: WorkerEnv, corsHeaders: Record<string, string>): Promise<Response> {
+  const operator = await getRequestOperator(request, env);
+  if (!operator) {
+    return new Response('Unauthorized', { status: 401, headers: corsHeaders });
+  }
+
+  try {
+    const response = await fetchSessionManager(env, 'call-queue', new Request('https://dummy.com/queue/list'));
+    const entries = await response.json() as QueueEntry[];
+
+    return new Response(
+      JSON.stringify(entries),
+      { headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  } catch (error) {
+    console.error('Error listing call queue:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to list call queue' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  }
+}
+
+/**
+ * Handle listing inbound routing for every configured phone number
+ */
+async function handleRoutingGet(request: Request, env: WorkerEnv, corsHeaders: Record<string, string>): Promise<Response> {
+  const operator = await getRequestOperator(request, env);
+  if (!operator) {
+    return new Response('Unauthorized', { status: 401, headers: corsHeaders });
+  }
+
+  try {
+    const response = await fetchSessionManager(env, 'routing-config', new Request('https://dummy.com/routing/get'));
+    const routing = await response.json() as Record<string, NumberRouting>;
+
+    return new Response(
+      JSON.stringify(routing),
+      { headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  } catch (error) {
+    console.error('Error listing number routing:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to list number routing' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  }
+}
+
+/**
+ * Handle switching a phone number between the operator queue, AI auto-answer and the schedule
+ */
+async function handleRoutingPut(request: Request, env: WorkerEnv, corsHeaders: Record<string, string>): Promise<Response> {
+  const operator = await getRequestOperator(request, env);
+  if (!operator) {
+    return new Response('Unauthorized', { status: 401, headers: corsHeaders });
+  }
+
+  try {
+    const body = await request.json() as { phoneNumber?: string; mode?: RoutingMode };
+    if (!body.phoneNumber || !body.mode) {
+      return new Response(
+        JSON.stringify({ error: 'phoneNumber and mode are required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      );
+    }
+
+    const response = await fetchSessionManager(env, 'routing-config', new Request('https://dummy.com/routing/set', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ phoneNumber: body.phoneNumber, mode: body.mode, operatorId: operator.id })
+    }));
+
+    if (!response.ok) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid routing mode' }),
+        { status: response.status, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify(await response.json()),
+      { headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  } catch (error) {
+    console.error('Error updating number routing:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to update number routing' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  }
+}
+
+/**
+ * Handle reporting which flow a number is using right now, for the dashboard
+ */
+async function handleRoutingActive(request: Request, env: WorkerEnv, corsHeaders: Record<string, string>): Promise<Response> {
+  const operator = await getRequestOperator(request, env);
+  if (!operator) {
+    return new Response('Unauthorized', { status: 401, headers: corsHeaders });
+  }
+
+  const phoneNumber = new URL(request.url).searchParams.get('phoneNumber');
+  if (!phoneNumber) {
+    return new Response(
+      JSON.stringify({ error: 'phoneNumber is required' }),
+      { status: 400, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  }
+
+  const active = await resolveInboundFlow(env, phoneNumber);
+  return new Response(
+    JSON.stringify({ phoneNumber, ...active }),
+    { headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+  );
+}
+
+/**
+ * Handle rendering instructions and greeting templates so operators can preview them.
+ * With a callSid the caller's real details are used, otherwise placeholders get fallbacks.
+ */
+async function handlePromptPreview(request: Request, env: WorkerEnv, corsHeaders: Record<string, string>): Promise<Response> {
+  const operator = await getRequestOperator(request, env);
+  if (!operator) {
+    return new Response('Unauthorized', { status: 401, headers: corsHeaders });
+  }
+
+  try {
+    const body = await request.json() as { instructions?: string; greeting?: string; callSid?: string };
+    const metadata: CallMetadata = body.callSid
+      ? await getClaimedCallMetadata(env, body.callSid, operator)
+      : { claimedBy: operator.id, claimedByName: operator.name };
+    const variables = buildTemplateVariables(env, metadata);
+
+    return new Response(
+      JSON.stringify({
+        instructions: renderPromptTemplate(body.instructions || '', variables),
+        greeting: renderPromptTemplate(body.greeting?.trim() ? body.greeting : DEFAULT_GREETING_TEMPLATE, variables),
+        variables,
+      }),
+      { headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  } catch (error) {
+    console.error('Error rendering prompt preview:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to render prompt preview' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  }
+}
+
+/**
+ * Handle reading the business-hours schedule
+ */
+async function handleScheduleGet(request: Request, env: WorkerEnv, corsHeaders: Record<string, string>): Promise<Response> {
+  const operator = await getRequestOperator(request, env);
+  if (!operator) {
+    return new Response('Unauthorized', { status: 401, headers: corsHeaders });
+  }
+
+  const response = await fetchSessionManager(env, 'routing-config', new Request('https://dummy.com/schedule/get'));
+  return new Response(
+    JSON.stringify(await response.json()),
+    { headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+  );
+}
+
+/**
+ * Handle replacing the business-hours schedule
+ */
+async function handleSchedulePut(request: Request, env: WorkerEnv, corsHeaders: Record<string, string>): Promise<Response> {
+  const operator = await getRequestOperator(request, env);
+  if (!operator) {
+    return new Response('Unauthorized', { status: 401, headers: corsHeaders });
+  }
+
+  try {
+    const schedule = await request.json() as BusinessSchedule;
+    const response = await fetchSessionManager(env, 'routing-config', new Request('https://dummy.com/schedule/set', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(schedule)
+    }));
+
+    console.log('Business schedule update:', { operatorId: operator.id, status: response.status });
+    return new Response(
+      JSON.stringify(await response.json()),
+      { status: response.status, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  } catch (error) {
+    console.error('Error updating business schedule:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to update business schedule' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  }
+}
+
+/**
+ * Handle reading the greeting and hold flow for a phone number, with defaults filled in
+ */
+async function handleFlowGet(request: Request, env: WorkerEnv, corsHeaders: Record<string, string>): Promise<Response> {
+  const operator = await getRequestOperator(request, env);
+  if (!operator) {
+    return new Response('Unauthorized', { status: 401, headers: corsHeaders });
+  }
+
+  const phoneNumber = new URL(request.url).searchParams.get('phoneNumber');
+  if (!phoneNumber) {
+    return new Response(
+      JSON.stringify({ error: 'phoneNumber is required' }),
+      { status: 400, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  }
+
+  return new Response(
+    JSON.stringify(await getCallFlow(env, phoneNumber)),
+    { headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+  );
+}
+
+/**
+ * Handle replacing the greeting and hold flow for a phone number
+ */
+async function handleFlowPut(request: Request, env: WorkerEnv, corsHeaders: Record<string, string>): Promise<Response> {
+  const operator = await getRequestOperator(request, env);
+  if (!operator) {
+    return new Response('Unauthorized', { status: 401, headers: corsHeaders });
+  }
+
+  try {
+    const body = await request.json() as { phoneNumber?: string; flow?: CallFlowDefinition };
+    const response = await fetchSessionManager(env, 'routing-config', new Request('https://dummy.com/flows/set', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ phoneNumber: body.phoneNumber, flow: body.flow, operatorId: operator.id })
+    }));
+
+    return new Response(
+      JSON.stringify(await response.json()),
+      { status: response.status, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  } catch (error) {
+    console.error('Error updating call flow:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to update call flow' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  }
+}
+
+/**
+ * Handle listing finished calls, newest first: ?q= searches transcripts, ?limit= and ?offset= page
+ */
+async function handleCallHistoryList(request: Request, env: WorkerEnv, corsHeaders: Record<string, string>): Promise<Response> {
+  const operator = await getRequestOperator(request, env);
+  if (!operator) {
+    return new Response('Unauthorized', { status: 401, headers: corsHeaders });
+  }
+  if (!env.CALL_HISTORY) {
+    return new Response(
+      JSON.stringify({ error: 'Call history is not configured' }),
+      { status: 503, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  }
+
+  try {
+    const params = new URL(request.url).searchParams;
+    const page = await listCallRecords(env.CALL_HISTORY, {
+      query: params.get('q') || undefined,
+      limit: Number(params.get('limit')) || undefined,
+      offset: Number(params.get('offset')) || undefined,
+    });
+    return new Response(
+      JSON.stringify(page),
+      { headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  } catch (error) {
+    console.error('Error listing call history:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to load call history' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  }
+}
+
+/**
+ * Handle loading one finished call with its transcript and function calls
+ */
+async function handleCallHistoryDetail(
+  request: Request,
+  env: WorkerEnv,
+  callSid: string,
+  corsHeaders: Record<string, string>
+): Promise<Response> {
+  const operator = await getRequestOperator(request, env);
+  if (!operator) {
+    return new Response('Unauthorized', { status: 401, headers: corsHeaders });
+  }
+  if (!env.CALL_HISTORY) {
+    return new Response(
+      JSON.stringify({ error: 'Call history is not configured' }),
+      { status: 503, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  }
+
+  try {
+    const record = await getCallRecord(env.CALL_HISTORY, callSid);
+    if (!record) {
+      return new Response(
+        JSON.stringify({ error: 'Call not found' }),
+        { status: 404, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      );
+    }
+    return new Response(
+      JSON.stringify(record),
+      { headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  } catch (error) {
+    console.error('Error loading call history record:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to load call' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  }
+}
+
+/**
+ * Handle loading the assistant settings for a profile ('default' or a phone number)
+ */
+async function handleSessionConfigGet(request: Request, env: WorkerEnv, corsHeaders: Record<string, string>): Promise<Response> {
+  const operator = await getRequestOperator(request, env);
+  if (!operator) {
+    return new Response('Unauthorized', { status: 401, headers: corsHeaders });
+  }
+
+  const profile = new URL(request.url).searchParams.get('profile') || DEFAULT_PROFILE;
+  if (!isValidProfileName(profile)) {
+    return new Response(
+      JSON.stringify({ error: "profile must be 'default' or an E.164 phone number" }),
+      { status: 400, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  }
+
+  try {
+    const response = await fetchSessionManager(env, 'routing-config', new Request('https://dummy.com/session-config/get'));
+    const profiles = await response.json() as Record<string, SessionConfigProfile>;
+    return new Response(
+      JSON.stringify({ profile, config: profiles[profile] || null }),
+      { headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  } catch (error) {
+    console.error('Error loading session config:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to load session config' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  }
+}
+
+/**
+ * Handle replacing the assistant settings for a profile
+ */
+async function handleSessionConfigPut(request: Request, env: WorkerEnv, corsHeaders: Record<string, string>): Promise<Response> {
+  const operator = await getRequestOperator(request, env);
+  if (!operator) {
+    return new Response('Unauthorized', { status: 401, headers: corsHeaders });
+  }
+
+  try {
+    const body = await request.json() as { profile?: string; config?: AssistantSessionConfig };
+    const response = await fetchSessionManager(env, 'routing-config', new Request('https://dummy.com/session-config/set', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ profile: body.profile || DEFAULT_PROFILE, config: body.config, operatorId: operator.id })
+    }));
+
+    return new Response(
+      JSON.stringify(await response.json()),
+      { status: response.status, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  } catch (error) {
+    console.error('Error updating session config:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to update session config' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  }
+}
+
+/**
+ * Handle pushing assistant settings to one in-progress call
+ */
+async function handleLiveSessionConfig(request: Request, env: WorkerEnv, corsHeaders: Record<string, string>): Promise<Response> {
+  const operator = await getRequestOperator(request, env);
+  if (!operator) {
+    return new Response('Unauthorized', { status: 401, headers: corsHeaders });
+  }
+
+  try {
+    const body = await request.json() as { callSid?: string; config?: AssistantSessionConfig };
+    if (!body.callSid) {
+      return new Response(
+        JSON.stringify({ error: 'callSid is required' }),
+        { status: 400, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+      );
+    }
+
+    const response = await fetchSessionManager(env, `call-${body.callSid}`, new Request('https://dummy.com/session-config/live', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ config: body.config, operatorId: operator.id })
+    }));
+
+    return new Response(
+      JSON.stringify(await response.json()),
+      { status: response.status, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  } catch (error) {
+    console.error('Error pushing session config to call:', error);
+    return new Response(
+      JSON.stringify({ error: 'Failed to update call session' }),
+      { status: 500, headers: { 'Content-Type': 'application/json', ...corsHeaders } }
+    );
+  }
+}
+
+/**
+ * Load the greeting and hold flow for a phone number, falling back to the defaults
+ */
+async function getCallFlow(env: WorkerEnv, phoneNumber: string): Promise<CallFlowDefinition> {
+  try {
+    const response = await fetchSessionManager(env, 'routing-config', new Request('https://dummy.com/flows/get'));
+    const flows = await response.json() as Record<string, CallFlowDefinition>;
+    return resolveCallFlow(flows[phoneNumber]);
+  } catch (error) {
+    console.error('Error loading call flow:', error);
+    return DEFAULT_CALL_FLOW;
+  }
+}
+
+/**
+ * Work out which flow calls to a number take right now: a fixed routing mode,
+ * or the business-hours schedule. Defaults to the operator queue.
+ */
+async function resolveInboundFlow(env: WorkerEnv, phoneNumber: string): Promise<ActiveInboundFlow> {
+  try {
+    const routingResponse = await fetchSessionManager(env, 'routing-config', new Request('https://dummy.com/routing/get'));
+    const routing = await routingResponse.json() as Record<string, NumberRouting>;
+    const mode: RoutingMode = routing[phoneNumber]?.mode || 'operator';
+
+    if (mode !== 'schedule') {
+      return { flow: mode, reason: 'fixed' };
+    }
+
+    const scheduleResponse = await fetchSessionManager(env, 'routing-config', new Request('https://dummy.com/schedule/get'));
+    const schedule = await scheduleResponse.json() as BusinessSchedule | null;
+    if (!schedule) {
+      return { flow: 'operator', reason: 'no-schedule' };
+    }
+
+    return evaluateBusinessSchedule(schedule);
+  } catch (error) {
+    console.error('Error resolving inbound flow:', error);
+    return { flow: 'operator', reason: 'fixed' };
+  }
+}
+
+/**
+ * Handle a dashboard subscribing to live queue updates over WebSocket
+ */
+async function handleQueueSubscribe(request: Request, env: WorkerEnv): Promise<Response> {
+  if (request.headers.get('Upgrade') !== 'websocket') {
+    return new Response('Expected WebSocket upgrade', { status: 426 });
+  }
+
+  const operator = await getRequestOperator(request, env);
+  if (!operator) {
+    return new Response('Unauthorized', { status: 401 });
+  }
+
+  return fetchSessionManager(env, 'call-queue', request);
+}
+
+/**
+ * Add a ringing call to the operator queue, returning its entry and whether it was new
+ */
+async function enqueueCall(
+  env: WorkerEnv,
+  callSid: string,
+  partialNumber: string
+): Promise<{ added: boolean; entry?: QueueEntry } | undefined> {
+  try {
+    const response = await fetchSessionManager(env, 'call-queue', new Request('https://dummy.com/queue/enqueue', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ callSid, partialNumber, timestamp: Date.now() })
+    }));
+
+    return await response.json() as { added: boolean; entry?: QueueEntry };
+  } catch (error) {
+    console.error('Error enqueuing call:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Remove a call from the operator queue, returning whether it was still queued
+ */
+async function removeQueuedCall(env: WorkerEnv, callSid: string, reason: QueueRemovalReason): Promise<boolean> {
+  try {
+    const response = await fetchSessionManager(env, 'call-queue', new Request('https://dummy.com/queue/remove', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ callSid, reason })
+    }));
+
+    const result = await response.json() as { removed: boolean };
+    return result.removed;
+  } catch (error) {
+    console.error('Error removing call from queue:', error);
+    return false;
+  }
+}
+
+/**
+ * Mark a call abandoned in its caller object so later claims are refused
+ */
+async function markCallAbandoned(env: WorkerEnv, callSid: string): Promise<void> {
+  try {
+    await fetchSessionManager(env, `caller-${callSid}`, new Request('https://dummy.com/mark-abandoned', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ timestamp: Date.now() })
+    }));
+  } catch (error) {
+    console.error('Error marking call abandoned:', error);
+  }
+}
+
+/**
+ * Record how a pharmacist transfer went on the call's session, returning the
+ * call metadata to reconnect the stream with, or null if the session refused
+ */
+async function updateTransferOutcome(
+  env: WorkerEnv,
+  callSid: string,
+  status: CallTransferStatus
+): Promise<{ callMetadata: CallMetadata } | null> {
+  try {
+    const response = await fetchSessionManager(env, `call-${callSid}`, new Request('https://dummy.com/transfer-outcome', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ status })
+    }));
+    if (!response.ok) {
+      console.error('Transfer status not recorded:', { callSid, status, httpStatus: response.status });
+      return null;
+    }
+    return await response.json() as { callMetadata: CallMetadata };
+  } catch (error) {
+    console.error('Error recording transfer status:', error);
+    return null;
+  }
+}
+
+/**
+ * Tell a call's session the call is over, so it summarises and saves the call
+ */
+async function endCallSession(env: WorkerEnv, callSid: string): Promise<void> {
+  try {
+    await fetchSessionManager(env, `call-${callSid}`, new Request('https://dummy.com/call-ended', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ timestamp: Date.now() })
+    }));
+  } catch (error) {
+    console.error('Error ending call session:', error);
+  }
+}
+
+/**
+ * Record that the AI answered a call, so a later operator claim takes over
+ * the existing stream instead of redirecting the call
+ */
+async function markCallAutoAnswered(env: WorkerEnv, callSid: string): Promise<void> {
+  try {
+    await fetchSessionManager(env, `caller-${callSid}`, new Request('https://dummy.com/mark-auto-answered', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ timestamp: Date.now() })
+    }));
+  } catch (error) {
+    console.error('Error marking call auto-answered:', error);
+  }
+}
+
 /**
  * Broadcast message to all active frontend sessions
  */
 async function broadcastToAllFrontends(env: WorkerEnv, message: any): Promise<void> {
   // Send to the shared logs session where all frontends are connected
-  const logsSessionId = env.SESSION_MANAGER.idFromName('logs-shared');
-  const logsSession = env.SESSION_MANAGER.get(logsSessionId);
-  
   try {
-    await logsSession.fetch(new Request('https://dummy.com/broadcast', {
+    await fetchSessionManager(env, 'logs-shared', new Request('https://dummy.com/broadcast', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(message)
@@ -699,28 +1878,47 @@ async function broadcastToAllFrontends(env: WorkerEnv, message: any): Promise<vo
 }
 
 /**
- * Store call assignment in Durable Object storage
+ * Claim a call in Durable Object storage (compare-and-set on the assignment)
  */
-async function storeCallAssignment(env: WorkerEnv, callSid: string, sessionId: string): Promise<void> {
-  const assignmentSessionId = env.SESSION_MANAGER.idFromName(`assignment-${callSid}`);
-  const assignmentSession = env.SESSION_MANAGER.get(assignmentSessionId);
-  
-  await assignmentSession.fetch(new Request('https://dummy.com/store', {
+async function claimCallAssignment(
+  env: WorkerEnv,
+  callSid: string,
+  operator: Operator
+): Promise<{ claimed: boolean; assignedTo?: string; assignedToName?: string }> {
+  const response = await fetchSessionManager(env, `assignment-${callSid}`, new Request('https://dummy.com/claim', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ sessionId, timestamp: Date.now() })
+    body: JSON.stringify({ sessionId: operator.id, operatorName: operator.name, timestamp: Date.now() })
   }));
+
+  if (!response.ok && response.status !== 409) {
+    throw new Error(`Failed to claim call assignment: ${response.status}`);
+  }
+
+  return await response.json() as { claimed: boolean; assignedTo?: string; assignedToName?: string };
+}
+
+/**
+ * Release a call assignment held by the given operator
+ */
+async function releaseCallAssignment(env: WorkerEnv, callSid: string, operatorId: string): Promise<void> {
+  try {
+    await fetchSessionManager(env, `assignment-${callSid}`, new Request('https://dummy.com/release', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ sessionId: operatorId })
+    }));
+  } catch (error) {
+    console.error('Error releasing call assignment:', error);
+  }
 }
 
 /**
  * Verify call assignment from Durable Object storage
  */
 async function verifyCallAssignment(env: WorkerEnv, callSid: string, sessionId: string): Promise<boolean> {
-  const assignmentSessionId = env.SESSION_MANAGER.idFromName(`assignment-${callSid}`);
-  const assignmentSession = env.SESSION_MANAGER.get(assignmentSessionId);
-  
   try {
-    const response = await assignmentSession.fetch(new Request('https://dummy.com/verify', {
+    const response = await fetchSessionManager(env, `assignment-${callSid}`, new Request('https://dummy.com/verify', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ sessionId })
@@ -737,85 +1935,101 @@ async function verifyCallAssignment(env: WorkerEnv, callSid: string, sessionId:
 /**
  * Store the caller's phone number for verification
  */
-async function storeCallerNumber(env: WorkerEnv, callSid: string, callerNumber: string): Promise<void> {
-  const callerSessionId = env.SESSION_MANAGER.idFromName(`caller-${callSid}`);
-  const callerSession = env.SESSION_MANAGER.get(callerSessionId);
-  
-  await callerSession.fetch(new Request('https://dummy.com/store-caller', {
+async function storeCallerNumber(
+  env: WorkerEnv,
+  callSid: string,
+  callerNumber: string,
+  locale: string,
+  calledNumber: string | null
+): Promise<void> {
+  await fetchSessionManager(env, `caller-${callSid}`, new Request('https://dummy.com/store-caller', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ callerNumber, timestamp: Date.now() })
+    body: JSON.stringify({ callerNumber, timestamp: Date.now(), locale, calledNumber: calledNumber || undefined })
   }));
 }
 
 /**
- * Verify the last 4 digits against the stored caller number
+ * Build the stream metadata for a call an operator has claimed
  */
-async function verifyLastFourDigits(env: WorkerEnv, callSid: string, lastFourDigits: string): Promise<boolean> {
-  const callerSessionId = env.SESSION_MANAGER.idFromName(`caller-${callSid}`);
-  const callerSession = env.SESSION_MANAGER.get(callerSessionId);
-  
+async function getClaimedCallMetadata(env: WorkerEnv, callSid: string, operator: Operator): Promise<CallMetadata> {
+  const metadata: CallMetadata = {
+    claimedBy: operator.id,
+    claimedByName: operator.name,
+    routingReason: 'operator_claim',
+  };
+
   try {
-    const response = await callerSession.fetch(new Request('https://dummy.com/verify-digits', {
+    const response = await fetchSessionManager(env, `caller-${callSid}`, new Request('https://dummy.com/get-caller'));
+    const caller = await response.json() as { callerNumber?: string; locale?: string; calledNumber?: string };
+    metadata.callerNumber = caller.callerNumber;
+    metadata.locale = caller.locale;
+    metadata.calledNumber = caller.calledNumber;
+  } catch (error) {
+    console.error('Error loading caller details:', error);
+  }
+
+  return metadata;
+}
+
+/**
+ * Verify the last 4 digits against the stored caller number, subject to lockouts
+ */
+async function verifyLastFourDigits(
+  env: WorkerEnv,
+  callSid: string,
+  lastFourDigits: string,
+  operatorId: string
+): Promise<DigitVerificationResult> {
+  try {
+    const response = await fetchSessionManager(env, `caller-${callSid}`, new Request('https://dummy.com/verify-digits', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ lastFourDigits })
+      body: JSON.stringify({ lastFourDigits, operatorId })
     }));
     
-    const result = await response.json() as { valid: boolean };
-    return result.valid;
+    return await response.json() as DigitVerificationResult;
   } catch (error) {
     console.error('Error verifying last four digits:', error);
-    return false;
+    return { valid: false };
   }
 }
 
 /**
- * Redirect live call to WebSocket using Twilio Call Control API
+ * Hand a call the AI already answered to the claiming operator, on its live stream
  */
-async function redirectCallToWebSocket(env: WorkerEnv, callSid: string, sessionId: string): Promise<boolean> {
-  if (!env.TWILIO_ACCOUNT_SID || !env.TWILIO_AUTH_TOKEN) {
-    console.error('Twilio credentials not configured');
+async function handOverToOperator(env: WorkerEnv, callSid: string, operator: Operator): Promise<boolean> {
+  try {
+    const response = await fetchSessionManager(env, `call-${callSid}`, new Request('https://dummy.com/operator-takeover', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ operatorId: operator.id, operatorName: operator.name })
+    }));
+    if (!response.ok) {
+      console.error('Call session refused operator takeover:', { callSid, status: response.status });
+      return false;
+    }
+
+    console.log('Handed auto-answered call to operator:', { callSid, operatorId: operator.id });
+    return true;
+  } catch (error) {
+    console.error('Error handing call to operator:', error);
     return false;
   }
+}
 
+/**
+ * Redirect live call to WebSocket using Twilio Call Control API
+ */
+async function redirectCallToWebSocket(env: WorkerEnv, callSid: string, operator: Operator): Promise<boolean> {
   try {
-    // Generate WebSocket URL for this specific call using path-based routing
-    const wsUrl = new URL(env.PUBLIC_URL);
-    wsUrl.protocol = 'wss:';
-    wsUrl.pathname = `/call/${callSid}`;
-
-    const twimlContent = `<?xml version="1.0" encoding="UTF-8"?>
-<Response>
-  <Connect>
-    <Stream url="${wsUrl.toString()}" />
-  </Connect>
-  <Say>Call ended</Say>
-</Response>`;
-
     // Use Twilio Call Control API to redirect the live call
-    const auth = btoa(`${env.TWILIO_ACCOUNT_SID}:${env.TWILIO_AUTH_TOKEN}`);
-    const formData = new URLSearchParams();
-    formData.append('Twiml', twimlContent);
-
-    const response = await fetch(
-      `https://api.twilio.com/2010-04-01/Accounts/${env.TWILIO_ACCOUNT_SID}/Calls/${callSid}.json`,
-      {
-        method: 'POST',
-        headers: {
-          'Authorization': `Basic ${auth}`,
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-        body: formData,
-      }
-    );
-
-    if (!response.ok) {
-      console.error('Twilio Call Control API error:', response.status, await response.text());
+    const twimlContent = buildStreamTwiml(env.PUBLIC_URL, callSid, await getClaimedCallMetadata(env, callSid, operator));
+    if (!await updateLiveCall(env, callSid, twimlContent)) {
       return false;
     }
 
-    console.log('Successfully redirected call to WebSocket:', { callSid, sessionId });
+    console.log('Successfully redirected call to WebSocket:', { callSid, operatorId: operator.id });
     return true;
   } catch (error) {
     console.error('Error redirecting call to WebSocket:', error);
@@ -0,0 +1,123 @@
+// Operator login and signed session tokens for the dashboard
+import { base64UrlDecode, base64UrlEncode, hmac, timingSafeEqual } from './cryptoUtils';
+import { Operator, OperatorTokenPayload, WorkerEnv } from './types';
+
+const DEFAULT_TOKEN_TTL_MS = 12 * 60 * 60 * 1000; // 12 hours
+
+interface OperatorAccount {
+  name: string;
+  password: string;
+}
+
+/**
+ * Parse the OPERATOR_ACCOUNTS secret: {"<operatorId>": {"name": "...", "password": "..."}}
+ */
+function getOperatorAccounts(env: WorkerEnv): Record<string, OperatorAccount> {
+  if (!env.OPERATOR_ACCOUNTS) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(env.OPERATOR_ACCOUNTS) as Record<string, OperatorAccount>;
+  } catch (error) {
+    console.error('OPERATOR_ACCOUNTS is not valid JSON:', error);
+    return {};
+  }
+}
+
+/**
+ * Check an operator's credentials, returning their identity on success
+ */
+export function authenticateOperator(env: WorkerEnv, operatorId: string, password: string): Operator | null {
+  // Own keys only, so ids like __proto__ never resolve to an inherited object
+  const accounts = getOperatorAccounts(env);
+  const account = Object.hasOwn(accounts, operatorId) ? accounts[operatorId] : undefined;
+  if (typeof account?.password !== 'string' || typeof password !== 'string') {
+    return null;
+  }
+  if (!timingSafeEqual(account.password, password)) {
+    return null;
+  }
+
+  return { id: operatorId, name: account.name || operatorId };
+}
+
+/**
+ * Issue a signed, expiring session token for an operator.
+ * Format: base64url(JSON payload) + "." + base64url(HMAC-SHA256 of the payload part)
+ */
+export async function issueOperatorToken(
+  env: WorkerEnv,
+  operator: Operator
+): Promise<{ token: string; expiresAt: number }> {
+  if (!env.OPERATOR_TOKEN_SECRET) {
+    throw new Error('OPERATOR_TOKEN_SECRET not configured');
+  }
+
+  const now = Date.now();
+  const ttl = Number(env.OPERATOR_TOKEN_TTL_MS) > 0 ? Number(env.OPERATOR_TOKEN_TTL_MS) : DEFAULT_TOKEN_TTL_MS;
+  const payload: OperatorTokenPayload = {
+    sub: operator.id,
+    name: operator.name,
+    iat: now,
+    exp: now + ttl,
+  };
+
+  const encodedPayload = base64UrlEncode(JSON.stringify(payload));
+  const signature = base64UrlEncode(await hmac('SHA-256', env.OPERATOR_TOKEN_SECRET, encodedPayload));
+
+  return { token: `${encodedPayload}.${signature}`, expiresAt: payload.exp };
+}
+
+/**
+ * Verify a session token's signature and expiry, returning the operator it was issued to
+ */
+export async function verifyOperatorToken(env: WorkerEnv, token: string | null | undefined): Promise<Operator | null> {
+  if (!token || !env.OPERATOR_TOKEN_SECRET) {
+    return null;
+  }
+
+  const [encodedPayload, signature] = token.split('.');
+  if (!encodedPayload || !signature) {
+    return null;
+  }
+
+  const expected = base64UrlEncode(await hmac('SHA-256', env.OPERATOR_TOKEN_SECRET, encodedPayload));
+  if (!timingSafeEqual(expected, signature)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(base64UrlDecode(encodedPayload)) as OperatorTokenPayload;
+    if (!payload.sub || payload.exp <= Date.now()) {
+      return null;
+    }
+    return { id: payload.sub, name: payload.name };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the operator token from an Authorization: Bearer header, or the `token`
+ * query parameter for WebSocket upgrades (browsers cannot set headers on those).
+ * Plain HTTP requests must use the header, so tokens stay out of logs and Referers.
+ */
+export function getOperatorToken(request: Request): string | null {
+  const authorization = request.headers.get('Authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.substring(7);
+  }
+
+  if (request.headers.get('Upgrade')?.toLowerCase() !== 'websocket') {
+    return null;
+  }
+  return new URL(request.url).searchParams.get('token');
+}
+
+/**
+ * Resolve the operator making a request, or null if the token is missing or invalid
+ */
+export async function getRequestOperator(request: Request, env: WorkerEnv): Promise<Operator | null> {
+  return verifyOperatorToken(env, getOperatorToken(request));
+}
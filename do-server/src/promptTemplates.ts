@@ -0,0 +1,93 @@
+// Instructions and greeting templates, rendered per call from session data
+import { CallerProfile, CallMetadata, PromptTemplateVariables, WorkerEnv } from './types';
+
+export const DEFAULT_PHARMACY_NAME = 'Fluffhead Pharmacy';
+
+export const DEFAULT_GREETING_TEMPLATE =
+  "When the call starts, greet the caller by saying 'Thank you for calling {{pharmacyName}}, where our intent is all for your delight. This is the pharmacist speaking, how may I assist you today?'";
+
+export const TEMPLATE_VARIABLE_NAMES: Array<keyof PromptTemplateVariables> = [
+  'callerName',
+  'pharmacyName',
+  'timeOfDay',
+  'operatorName',
+];
+
+// Used when the caller or operator is not known, so rendered text still reads naturally
+const UNKNOWN_CALLER_NAME = 'the caller';
+const UNKNOWN_OPERATOR_NAME = 'the pharmacist';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Parse the CALLER_PROFILES variable: {"<E.164 number>": {"name": "...", "notes": "..."}}
+ */
+function getCallerProfiles(env: WorkerEnv): Record<string, CallerProfile> {
+  if (!env.CALLER_PROFILES) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(env.CALLER_PROFILES) as Record<string, CallerProfile>;
+  } catch (error) {
+    console.error('CALLER_PROFILES is not valid JSON:', error);
+    return {};
+  }
+}
+
+/**
+ * Look up the profile for a caller's phone number
+ */
+export function lookupCallerProfile(env: WorkerEnv, callerNumber?: string): CallerProfile | null {
+  if (!callerNumber) {
+    return null;
+  }
+  const profile = getCallerProfiles(env)[callerNumber];
+  return profile && typeof profile.name === 'string' && profile.name.trim() ? profile : null;
+}
+
+/**
+ * Bucket the hour in the pharmacy's timezone into morning, afternoon or evening
+ */
+function getTimeOfDay(timezone: string, now: Date): PromptTemplateVariables['timeOfDay'] {
+  let hour = now.getUTCHours();
+  try {
+    hour = Number(new Intl.DateTimeFormat('en-US', { timeZone: timezone, hour: 'numeric', hourCycle: 'h23' }).format(now));
+  } catch (error) {
+    console.error('Invalid PHARMACY_TIMEZONE:', { timezone });
+  }
+
+  if (hour < 12) return 'morning';
+  if (hour < 17) return 'afternoon';
+  return 'evening';
+}
+
+/**
+ * Work out template values for a call from its metadata and the caller's profile
+ */
+export function buildTemplateVariables(
+  env: WorkerEnv,
+  metadata: CallMetadata,
+  now: Date = new Date()
+): PromptTemplateVariables {
+  const profile = lookupCallerProfile(env, metadata.callerNumber);
+
+  return {
+    callerName: profile?.name.trim() || UNKNOWN_CALLER_NAME,
+    pharmacyName: env.PHARMACY_NAME || DEFAULT_PHARMACY_NAME,
+    timeOfDay: getTimeOfDay(env.PHARMACY_TIMEZONE || 'UTC', now),
+    operatorName: metadata.claimedByName || metadata.claimedBy || UNKNOWN_OPERATOR_NAME,
+  };
+}
+
+/**
+ * Replace {{name}} placeholders with their values. Unknown placeholders are left
+ * as written so typos show up in the preview instead of silently disappearing.
+ */
+export function renderPromptTemplate(template: string, variables: PromptTemplateVariables): string {
+  return template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) =>
+    TEMPLATE_VARIABLE_NAMES.indexOf(name as keyof PromptTemplateVariables) !== -1
+      ? variables[name as keyof PromptTemplateVariables]
+      : placeholder
+  );
+}
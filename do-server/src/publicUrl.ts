@@ -0,0 +1,14 @@
+// URLs Twilio calls back on, built from PUBLIC_URL
+
+/**
+ * Build the public URL for a worker route. A path prefix on PUBLIC_URL (a
+ * worker mounted under a sub-path) is kept, so every callback and stream URL
+ * matches what validateTwilioRequest rebuilds when checking signatures.
+ */
+export function buildPublicUrl(publicUrl: string, path: string): URL {
+  const url = new URL(publicUrl);
+  url.pathname = url.pathname.replace(/\/+$/, '') + path;
+  url.search = '';
+  url.hash = '';
+  return url;
+}
@@ -0,0 +1,83 @@
+// Assistant session settings: 'default' and per-number profiles, plus per-call overrides
+import { AssistantSessionConfig, SessionConfigProfile } from './types';
+
+export const DEFAULT_PROFILE = 'default';
+
+const REALTIME_VOICES = ['alloy', 'ash', 'ballad', 'coral', 'echo', 'sage', 'shimmer', 'verse'];
+const MAX_INSTRUCTIONS_LENGTH = 20000;
+const MAX_GREETING_LENGTH = 2000;
+const PROFILE_NUMBER_PATTERN = /^\+\d{7,15}$/;
+
+/**
+ * Check a profile name is 'default' or an E.164 phone number
+ */
+export function isValidProfileName(profile: unknown): profile is string {
+  return profile === DEFAULT_PROFILE || (typeof profile === 'string' && PROFILE_NUMBER_PATTERN.test(profile));
+}
+
+/**
+ * Check settings submitted from the dashboard, returning an error message or null
+ */
+export function validateSessionConfig(config: AssistantSessionConfig): string | null {
+  if (!config || typeof config !== 'object') {
+    return 'config is required';
+  }
+
+  if (config.instructions !== undefined) {
+    if (typeof config.instructions !== 'string') return 'instructions must be text';
+    if (config.instructions.length > MAX_INSTRUCTIONS_LENGTH) {
+      return `instructions must be ${MAX_INSTRUCTIONS_LENGTH} characters or fewer`;
+    }
+  }
+
+  if (config.greeting !== undefined) {
+    if (typeof config.greeting !== 'string') return 'greeting must be text';
+    if (config.greeting.length > MAX_GREETING_LENGTH) {
+      return `greeting must be ${MAX_GREETING_LENGTH} characters or fewer`;
+    }
+  }
+
+  if (config.voice !== undefined && REALTIME_VOICES.indexOf(config.voice) === -1) {
+    return `voice must be one of ${REALTIME_VOICES.join(', ')}`;
+  }
+
+  if (config.tools !== undefined) {
+    if (!Array.isArray(config.tools)) return 'tools must be a list';
+    if (config.tools.some((tool) => !tool || typeof tool !== 'object' || typeof tool.name !== 'string')) {
+      return 'every tool needs a name';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Keep only the settings we store, dropping anything else a client sent
+ */
+export function pickSessionConfig(config: AssistantSessionConfig): AssistantSessionConfig {
+  const picked: AssistantSessionConfig = {};
+  if (config.instructions !== undefined) picked.instructions = config.instructions;
+  if (config.greeting !== undefined) picked.greeting = config.greeting;
+  if (config.voice !== undefined) picked.voice = config.voice;
+  if (config.tools !== undefined) picked.tools = config.tools;
+  return picked;
+}
+
+/**
+ * Work out a call's settings: the default profile, then the dialled number's
+ * profile, then anything pushed to the call itself
+ */
+export function resolveSessionConfig(
+  profiles: Record<string, SessionConfigProfile>,
+  calledNumber: string | undefined,
+  callConfig: AssistantSessionConfig | undefined
+): AssistantSessionConfig {
+  const defaultProfile = profiles[DEFAULT_PROFILE];
+  const numberProfile = calledNumber ? profiles[calledNumber] : undefined;
+
+  return {
+    ...(defaultProfile ? pickSessionConfig(defaultProfile) : {}),
+    ...(numberProfile ? pickSessionConfig(numberProfile) : {}),
+    ...(callConfig ? pickSessionConfig(callConfig) : {}),
+  };
+}
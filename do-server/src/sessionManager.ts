@@ -1,70 +1,387 @@
-import { Session, WebSocketMessage } from './types';
+import {
+  ActiveCall,
+  AssistantSessionConfig,
+  BusinessSchedule,
+  CallFlowDefinition,
+  CallTransferStatus,
+  ControlMessage,
+  ControlMessageType,
+  ControlResult,
+  DigitVerificationResult,
+  FunctionCallRecord,
+  MonitorLeg,
+  PersistedSession,
+  PostCallSummary,
+  QueueEntry,
+  QueueRemovalReason,
+  RoutingMode,
+  Session,
+  SessionConfigProfile,
+  SessionType,
+  SocketAttachment,
+  SocketTag,
+  TranscriptEntry,
+  TransferResult,
+  VerificationLockState,
+  WebSocketMessage,
+} from './types';
 import functions from './functionHandlers';
 import { HoldMusicService } from './holdMusicService';
+import { validateBusinessSchedule } from './businessHours';
+import { validateCallFlow } from './callFlows';
+import { describeCallMetadata, parseStreamParameters } from './callMetadata';
+import { buildTemplateVariables, DEFAULT_GREETING_TEMPLATE, renderPromptTemplate } from './promptTemplates';
+import { appendTranscript, summarizeFinishedCall, summarizeTranscript } from './callSummary';
+import { appendFunctionCall, saveCallRecord, setFunctionOutput, toPartialNumber } from './callHistory';
+import { buildTransferTwiml } from './twimlResponses';
+import { updateLiveCall } from './twilioCalls';
+import { isValidProfileName, pickSessionConfig, resolveSessionConfig, validateSessionConfig } from './sessionConfig';
+
+// Header carrying the name a SessionManager instance was addressed by
+export const SESSION_NAME_HEADER = 'X-Session-Name';
+// Headers carrying the operator a dashboard socket was authenticated as
+export const OPERATOR_ID_HEADER = 'X-Operator-Id';
+export const OPERATOR_NAME_HEADER = 'X-Operator-Name';
+
+// Calls whose end was never announced drop off the dashboard after this long
+const ACTIVE_CALL_MAX_AGE_MS = 4 * 60 * 60 * 1000;
+
+// A call handed to the pharmacist has no stream here but is still going; keep
+// its session (and the unsaved history) this long before cleaning up regardless
+const TRANSFER_MAX_AGE_MS = 2 * 60 * 60 * 1000;
+
+// How long after its stream closes a call is ended anyway, for numbers whose
+// completed status callback never arrives (no StatusCallback configured)
+const STREAM_CLOSED_GRACE_MS = 30 * 1000;
+const TRANSFER_IN_PROGRESS: CallTransferStatus[] = ['summarizing', 'dialing', 'answered'];
+// Outcomes /transfer-status reports back from the pharmacist's <Dial>
+const TRANSFER_OUTCOMES: CallTransferStatus[] = ['answered', 'completed', 'unanswered'];
+
+// Longest whisper an operator can send to the assistant
+const MAX_WHISPER_LENGTH = 1000;
+
+// Dashboard messages that act on a live call rather than the socket they arrive on
+const CONTROL_MESSAGE_TYPES: ControlMessageType[] = ['hold_music.start', 'hold_music.stop', 'function_call_output'];
+
+// Everything a dashboard socket on a call's own session may send. Nothing else
+// reaches the call, and none of it is passed to the model as-is.
+const CALL_SOCKET_MESSAGE_TYPES: string[] = [
+  'barge_in.start',
+  'barge_in.audio',
+  'barge_in.stop',
+  'whisper',
+  'monitor.start',
+  'monitor.stop',
+  'session.update',
+  ...CONTROL_MESSAGE_TYPES,
+];
+
+// Default inactivity timeouts per session type, overridable via env vars
+const DEFAULT_SESSION_TIMEOUTS: Record<SessionType, number> = {
+  call: 300000,     // 5 minutes
+  logs: 1800000,    // 30 minutes
+  helper: 3600000,  // 1 hour - assignment/caller objects must outlive the call
+  config: Infinity, // Never - holds settings edited from the dashboard
+};
+
+const ROUTING_MODES: RoutingMode[] = ['operator', 'ai', 'schedule'];
+
+// Brute-force protection for last-four-digit call verification
+const VERIFICATION_POLICY = {
+  maxAttemptsPerOperator: 3,   // Failures before one operator is locked out
+  maxAttemptsPerCall: 6,       // Failures across all operators before the call is locked
+  baseLockoutMs: 30000,        // First lockout lasts 30 seconds...
+  maxLockoutMs: 900000,        // ...doubling each time, up to 15 minutes
+};
 
 export class SessionManager implements DurableObject {
   private session: Session = {};
-  private websockets: Map<string, WebSocket> = new Map();
+  // The outbound OpenAI socket cannot be hibernated, so it is held in memory.
+  // Twilio and frontend sockets live in the hibernation API, tagged by type and ID.
+  private modelWs?: WebSocket;
   private holdMusicService: HoldMusicService;
-  private cleanupTimer?: any;
-  private readonly CLEANUP_TIMEOUT = 300000; // 5 minutes
+  private lastPersistedActivity = 0;
   private readonly ACTIVITY_CHECK_INTERVAL = 60000; // 1 minute
+  private readonly ACTIVITY_PERSIST_INTERVAL = 15000; // 15 seconds
+  private static readonly SESSION_STORAGE_KEY = 'session';
+  // A long call's transcript and function calls get their own values, so they
+  // cannot push the session past the storage value size limit
+  private static readonly TRANSCRIPT_STORAGE_KEY = 'transcript';
+  private static readonly FUNCTION_CALLS_STORAGE_KEY = 'function-calls';
 
   constructor(private ctx: DurableObjectState, private env: any) {
     this.holdMusicService = new HoldMusicService(env.TRACKS);
-    this.initializeSession();
+    // Restore persisted state before any request is delivered to this instance
+    this.ctx.blockConcurrencyWhile(async () => {
+      await this.loadSession();
+      this.restoreConnections();
+    });
+  }
+
+  /**
+   * Re-link hibernated sockets to the session after the object wakes up
+   */
+  private restoreConnections(): void {
+    for (const ws of this.ctx.getWebSockets()) {
+      const attachment = ws.deserializeAttachment() as SocketAttachment | null;
+      if (!attachment) continue;
+
+      if (attachment.tag === 'call') {
+        this.session.twilioConnId = attachment.connectionId;
+        this.session.openAIApiKey = this.env.OPENAI_API_KEY;
+      } else if (attachment.tag === 'logs') {
+        this.session.frontendConnId = attachment.connectionId;
+      }
+    }
+  }
+
+  /**
+   * Look up a live socket by its connection ID
+   */
+  private getWebSocket(connectionId: string): WebSocket | undefined {
+    if (connectionId === this.session.modelConnId) {
+      return this.modelWs;
+    }
+    return this.ctx.getWebSockets(connectionId)[0];
+  }
+
+  /**
+   * Count open sockets of every kind, including the in-memory model socket
+   */
+  private getConnectionCount(): number {
+    return this.ctx.getWebSockets().length + (this.modelWs ? 1 : 0);
   }
 
-  private initializeSession(): void {
+  private async initializeSession(): Promise<void> {
     const now = Date.now();
-    this.session.createdAt = now;
-    this.session.lastActivity = now;
-    this.scheduleActivityCheck();
+    this.session.createdAt ??= now;
+    this.session.lastActivity ??= now;
+    await this.scheduleActivityCheck();
+  }
+
+  /**
+   * Load persisted session state from Durable Object storage
+   */
+  private async loadSession(): Promise<void> {
+    const values = await this.ctx.storage.get([
+      SessionManager.SESSION_STORAGE_KEY,
+      SessionManager.TRANSCRIPT_STORAGE_KEY,
+      SessionManager.FUNCTION_CALLS_STORAGE_KEY,
+    ]);
+    const stored = values.get(SessionManager.SESSION_STORAGE_KEY) as PersistedSession | undefined;
+    if (stored) {
+      this.session = {
+        ...stored,
+        transcript: values.get(SessionManager.TRANSCRIPT_STORAGE_KEY) as TranscriptEntry[] | undefined,
+        functionCalls: values.get(SessionManager.FUNCTION_CALLS_STORAGE_KEY) as FunctionCallRecord[] | undefined,
+      };
+      this.lastPersistedActivity = stored.lastActivity || 0;
+      console.log('Restored session from storage:', this.session.sessionId);
+    }
+  }
+
+  /**
+   * Write the persistable part of the session through to Durable Object storage
+   */
+  private async saveSession(): Promise<void> {
+    const persisted: PersistedSession = {
+      sessionId: this.session.sessionId,
+      objectName: this.session.objectName,
+      config: this.session.config,
+      streamSid: this.session.streamSid,
+      callSid: this.session.callSid,
+      createdAt: this.session.createdAt,
+      lastActivity: this.session.lastActivity,
+      assignedTo: this.session.assignedTo,
+      assignedToName: this.session.assignedToName,
+      assignedAt: this.session.assignedAt,
+      callerNumber: this.session.callerNumber,
+      callerTimestamp: this.session.callerTimestamp,
+      callerLocale: this.session.callerLocale,
+      calledNumber: this.session.calledNumber,
+      callMetadata: this.session.callMetadata,
+      abandonedAt: this.session.abandonedAt,
+      autoAnsweredAt: this.session.autoAnsweredAt,
+      transcriptTruncated: this.session.transcriptTruncated,
+      callStartedAt: this.session.callStartedAt,
+      callEndedAt: this.session.callEndedAt,
+      streamClosedAt: this.session.streamClosedAt,
+      transfer: this.session.transfer,
+      operatorTakeoverAt: this.session.operatorTakeoverAt,
+      verificationLocks: this.session.verificationLocks,
+      verificationAudit: this.session.verificationAudit,
+      queue: this.session.queue,
+      activeCalls: this.session.activeCalls,
+      routing: this.session.routing,
+      schedule: this.session.schedule,
+      flows: this.session.flows,
+      sessionProfiles: this.session.sessionProfiles,
+      broadcastMessages: this.session.broadcastMessages,
+    };
+    const entries: Record<string, unknown> = { [SessionManager.SESSION_STORAGE_KEY]: persisted };
+    if (this.session.transcript) {
+      entries[SessionManager.TRANSCRIPT_STORAGE_KEY] = this.session.transcript;
+    }
+    if (this.session.functionCalls) {
+      entries[SessionManager.FUNCTION_CALLS_STORAGE_KEY] = this.session.functionCalls;
+    }
+    await this.ctx.storage.put(entries);
+    this.lastPersistedActivity = this.session.lastActivity || 0;
+  }
+
+  /**
+   * Remove all persisted state and the pending alarm for this Durable Object
+   */
+  private async clearSession(): Promise<void> {
+    await this.ctx.storage.deleteAlarm();
+    await this.ctx.storage.deleteAll();
+    this.lastPersistedActivity = 0;
   }
 
   private updateActivity(): void {
-    this.session.lastActivity = Date.now();
+    const now = Date.now();
+    this.session.lastActivity = now;
+
+    // Media events arrive every 20ms, so only write activity through periodically
+    if (now - this.lastPersistedActivity > this.ACTIVITY_PERSIST_INTERVAL) {
+      this.saveSession().catch((error) => {
+        console.error('Error persisting session activity:', error);
+      });
+    }
   }
 
-  private scheduleActivityCheck(): void {
-    // Clear existing timer
-    if (this.cleanupTimer) {
-      clearTimeout(this.cleanupTimer);
+  /**
+   * Make sure an inactivity check alarm is pending for this Durable Object
+   */
+  private async scheduleActivityCheck(): Promise<void> {
+    const existingAlarm = await this.ctx.storage.getAlarm();
+    if (existingAlarm === null) {
+      await this.ctx.storage.setAlarm(Date.now() + this.ACTIVITY_CHECK_INTERVAL);
     }
-    
-    // Schedule next check
-    this.cleanupTimer = setTimeout(() => {
-      this.checkAndCleanup();
-    }, this.ACTIVITY_CHECK_INTERVAL);
   }
 
-  private checkAndCleanup(): void {
+  /**
+   * Durable Object alarm handler - runs the periodic inactivity sweep
+   */
+  async alarm(): Promise<void> {
+    await this.checkAndCleanup();
+  }
+
+  /**
+   * The CallSid a call-* object was addressed by. Unlike session.callSid, it is
+   * still there after the call's stream has closed.
+   */
+  private getObjectCallSid(): string | undefined {
+    const name = this.session.objectName || '';
+    return this.getSessionType() === 'call' && name.startsWith('call-') ? name.slice('call-'.length) : undefined;
+  }
+
+  /**
+   * Work out what kind of session this instance holds from the name it was addressed by
+   */
+  private getSessionType(): SessionType {
+    const name = this.session.objectName || '';
+    if (name.startsWith('assignment-') || name.startsWith('caller-')) {
+      return 'helper';
+    }
+    if (name === 'logs-shared' || name === 'broadcast-registry' || name === 'call-queue') {
+      return 'logs';
+    }
+    if (name === 'routing-config') {
+      return 'config';
+    }
+    return 'call';
+  }
+
+  private getCleanupTimeout(type: SessionType): number {
+    const overrides: Record<SessionType, string | undefined> = {
+      call: this.env.CALL_SESSION_TIMEOUT_MS,
+      logs: this.env.LOGS_SESSION_TIMEOUT_MS,
+      helper: this.env.HELPER_SESSION_TIMEOUT_MS,
+      config: undefined,
+    };
+    const override = Number(overrides[type]);
+    return override > 0 ? override : DEFAULT_SESSION_TIMEOUTS[type];
+  }
+
+  private async checkAndCleanup(): Promise<void> {
     const now = Date.now();
     const lastActivity = this.session.lastActivity || 0;
     const timeSinceActivity = now - lastActivity;
+    const sessionType = this.getSessionType();
+    const cleanupTimeout = this.getCleanupTimeout(sessionType);
+
+    // Config objects never expire, so there is nothing to keep checking
+    if (sessionType === 'config') {
+      return;
+    }
+
+    // The caller is talking to the pharmacist - the call has not ended yet
+    if (
+      sessionType === 'call' &&
+      this.isTransferInProgress() &&
+      now - (this.session.transfer?.startedAt || 0) < TRANSFER_MAX_AGE_MS
+    ) {
+      await this.ctx.storage.setAlarm(now + this.ACTIVITY_CHECK_INTERVAL);
+      return;
+    }
+
+    // The stream closed and neither a status callback nor a new stream followed
+    if (
+      sessionType === 'call' &&
+      this.session.streamClosedAt &&
+      !this.session.twilioConnId &&
+      now - this.session.streamClosedAt >= STREAM_CLOSED_GRACE_MS
+    ) {
+      await this.finishCall(this.session.streamClosedAt);
+    }
     
     // If no connections and inactive for more than cleanup timeout, self-destruct
-    if (this.websockets.size === 0 && timeSinceActivity > this.CLEANUP_TIMEOUT) {
-      console.log(`Session ${this.session.sessionId} auto-cleaning up due to inactivity`);
-      this.cleanupAllConnections();
+    if (this.getConnectionCount() === 0 && timeSinceActivity > cleanupTimeout) {
+      console.log(`Session ${this.session.objectName} (${sessionType}) auto-cleaning up due to inactivity`);
+      await this.cleanupAllConnections();
       return;
     }
     
     // If call ended but frontend is still connected, give it some time
-    if (!this.session.twilioConnId && !this.session.callSid && timeSinceActivity > this.CLEANUP_TIMEOUT / 2) {
-      console.log(`Session ${this.session.sessionId} cleaning up after call ended`);
-      this.cleanupAllConnections();
+    if (
+      sessionType === 'call' &&
+      !this.session.twilioConnId &&
+      !this.session.callSid &&
+      timeSinceActivity > cleanupTimeout / 2
+    ) {
+      console.log(`Session ${this.session.objectName} cleaning up after call ended`);
+      await this.cleanupAllConnections();
       return;
     }
     
     // Schedule next check
-    this.scheduleActivityCheck();
+    await this.ctx.storage.setAlarm(now + this.ACTIVITY_CHECK_INTERVAL);
+  }
+
+  /**
+   * Record the name this instance was addressed by and start tracking activity
+   */
+  private async trackRequest(request: Request): Promise<void> {
+    const objectName = request.headers.get(SESSION_NAME_HEADER);
+    let changed = !this.session.createdAt;
+    if (objectName && this.session.objectName !== objectName) {
+      this.session.objectName = objectName;
+      changed = true;
+    }
+    this.updateActivity();
+    await this.initializeSession();
+    if (changed) {
+      await this.saveSession();
+    }
   }
 
   async fetch(request: Request): Promise<Response> {
     const url = new URL(request.url);
     const path = url.pathname;
     const parts = path.split('/').filter(Boolean);
+
+    await this.trackRequest(request);
     
     // Handle non-WebSocket requests for broadcasting and storage
     if (request.headers.get('Upgrade') !== 'websocket') {
@@ -73,7 +390,7 @@ export class SessionManager implements DurableObject {
 
     const type = parts[0];
     
-    if (type !== 'call' && type !== 'logs') {
+    if (type !== 'call' && type !== 'logs' && type !== 'queue') {
       return new Response('Invalid WebSocket type', { status: 400 });
     }
 
@@ -85,6 +402,7 @@ export class SessionManager implements DurableObject {
       if (sessionIdFromUrl) {
         this.session.sessionId = sessionIdFromUrl;
         console.log('Session ID set from URL:', this.session.sessionId);
+        await this.saveSession();
       }
     }
 
@@ -92,7 +410,11 @@ export class SessionManager implements DurableObject {
     const [client, server] = Object.values(new WebSocketPair());
 
     // Handle the WebSocket connection
-    await this.handleWebSocket(server, type);
+    const operatorName = request.headers.get(OPERATOR_NAME_HEADER);
+    await this.handleWebSocket(server, type as SocketTag, {
+      operatorId: request.headers.get(OPERATOR_ID_HEADER) || undefined,
+      operatorName: operatorName ? decodeURIComponent(operatorName) : undefined,
+    });
 
     return new Response(null, {
       status: 101,
@@ -105,18 +427,64 @@ export class SessionManager implements DurableObject {
       switch (path) {
         case '/broadcast':
           return this.handleBroadcast(request);
-        case '/store':
-          return this.handleStore(request);
+        case '/claim':
+          return this.handleClaim(request);
+        case '/release':
+          return this.handleRelease(request);
         case '/verify':
           return this.handleVerify(request);
         case '/store-caller':
           return this.handleStoreCaller(request);
+        case '/get-caller':
+          return this.jsonResponse({
+            callerNumber: this.session.callerNumber,
+            locale: this.session.callerLocale,
+            calledNumber: this.session.calledNumber
+          });
         case '/verify-digits':
           return this.handleVerifyDigits(request);
+        case '/mark-abandoned':
+          return this.handleMarkAbandoned(request);
+        case '/mark-auto-answered':
+          return this.handleMarkAutoAnswered(request);
+        case '/transfer':
+          return this.handleTransfer(request);
+        case '/call-ended':
+          return this.handleCallEnded(request);
+        case '/operator-takeover':
+          return this.handleOperatorTakeover(request);
+        case '/transfer-outcome':
+          return this.handleTransferOutcome(request);
+        case '/control':
+          return this.handleControl(request);
         case '/store-broadcast':
           return this.handleStoreBroadcast(request);
         case '/get-broadcasts':
           return this.handleGetBroadcasts(request);
+        case '/queue/enqueue':
+          return this.handleQueueEnqueue(request);
+        case '/queue/remove':
+          return this.handleQueueRemove(request);
+        case '/queue/list':
+          return this.jsonResponse(this.getQueueEntries());
+        case '/routing/get':
+          return this.jsonResponse(this.session.routing || {});
+        case '/routing/set':
+          return this.handleRoutingSet(request);
+        case '/schedule/get':
+          return this.jsonResponse(this.session.schedule || null);
+        case '/schedule/set':
+          return this.handleScheduleSet(request);
+        case '/flows/get':
+          return this.jsonResponse(this.session.flows || {});
+        case '/flows/set':
+          return this.handleFlowSet(request);
+        case '/session-config/get':
+          return this.jsonResponse(this.session.sessionProfiles || {});
+        case '/session-config/set':
+          return this.handleSessionConfigSet(request);
+        case '/session-config/live':
+          return this.handleLiveSessionConfig(request);
         default:
           return new Response('Not Found', { status: 404 });
       }
@@ -126,55 +494,89 @@ export class SessionManager implements DurableObject {
     }
   }
 
-  private async handleWebSocket(ws: WebSocket, type: string): Promise<void> {
+  private async handleWebSocket(
+    ws: WebSocket,
+    type: SocketTag,
+    operator: Pick<SocketAttachment, 'operatorId' | 'operatorName'> = {}
+  ): Promise<void> {
     const connectionId = this.generateConnectionId();
     
-    ws.accept();
-    this.websockets.set(connectionId, ws);
+    // Tag with type and ID so sockets can be found again after hibernation
+    this.ctx.acceptWebSocket(ws, [type, connectionId]);
+    const attachment: SocketAttachment = {
+      connectionId,
+      tag: type,
+      ...(type === 'logs' ? operator : {}),
+    };
+    ws.serializeAttachment(attachment);
     this.updateActivity(); // Mark activity on new connection
 
     if (type === 'call') {
       await this.handleCallConnection(ws, connectionId);
     } else if (type === 'logs') {
       await this.handleFrontendConnection(ws, connectionId);
+    } else if (type === 'queue') {
+      // Send the current queue so the subscriber starts from a full snapshot
+      this.sendToWebSocket(ws, { type: 'queue.snapshot', entries: this.getQueueEntries() });
     }
+  }
 
-    ws.addEventListener('message', async (event) => {
-      try {
-        const data = JSON.parse(event.data as string);
-        
-        if (type === 'call') {
-          await this.handleTwilioMessage(data, ws, connectionId);
-        } else if (type === 'logs') {
-          await this.handleFrontendMessage(data, ws, connectionId);
-        }
-      } catch (error) {
-        console.error('Error handling WebSocket message:', error);
-      }
-    });
+  /**
+   * Hibernation API handler for messages on Twilio and frontend sockets
+   */
+  async webSocketMessage(ws: WebSocket, message: string | ArrayBuffer): Promise<void> {
+    const { connectionId, tag } = ws.deserializeAttachment() as SocketAttachment;
 
-    ws.addEventListener('close', () => {
-      this.websockets.delete(connectionId);
-      this.updateActivity(); // Mark activity on close
+    try {
+      const data = JSON.parse(message as string);
       
-      if (type === 'call' && this.session.twilioConnId === connectionId) {
-        this.cleanupCallConnection();
-      } else if (type === 'logs' && this.session.frontendConnId === connectionId) {
+      if (tag === 'call') {
+        await this.handleTwilioMessage(data, ws, connectionId);
+      } else if (tag === 'logs') {
+        await this.handleFrontendMessage(data, ws, connectionId);
+      }
+    } catch (error) {
+      console.error('Error handling WebSocket message:', error);
+    }
+  }
+
+  /**
+   * Hibernation API handler for Twilio and frontend socket closes
+   */
+  async webSocketClose(ws: WebSocket, code: number, reason: string, wasClean: boolean): Promise<void> {
+    const { connectionId, tag } = ws.deserializeAttachment() as SocketAttachment;
+    this.updateActivity(); // Mark activity on close
+
+    try {
+      ws.close(code, reason);
+    } catch {
+      // Socket already closed or code not sendable (1005/1006)
+    }
+    
+    if (tag === 'call' && this.session.twilioConnId === connectionId) {
+      await this.cleanupCallConnection();
+    } else if (tag === 'logs') {
+      if (this.session.bargeInConnId === connectionId) {
+        this.stopBargeIn();
+      }
+      if (this.session.frontendConnId === connectionId) {
         this.session.frontendConnId = undefined;
       }
-    });
+    }
+  }
 
-    ws.addEventListener('error', (error) => {
-      console.error('WebSocket error:', error);
-      this.websockets.delete(connectionId);
-      this.updateActivity(); // Mark activity on error
-    });
+  /**
+   * Hibernation API handler for Twilio and frontend socket errors
+   */
+  async webSocketError(ws: WebSocket, error: unknown): Promise<void> {
+    console.error('WebSocket error:', error);
+    this.updateActivity(); // Mark activity on error
   }
 
   private async handleCallConnection(ws: WebSocket, connectionId: string): Promise<void> {
     // Close existing call connection if any
     if (this.session.twilioConnId) {
-      const existingWs = this.websockets.get(this.session.twilioConnId);
+      const existingWs = this.getWebSocket(this.session.twilioConnId);
       if (existingWs) {
         existingWs.close();
       }
@@ -188,6 +590,11 @@ export class SessionManager implements DurableObject {
     // Allow multiple frontend connections - don't close existing ones
     // Just update the frontendConnId to the latest connection for any single-connection operations
     this.session.frontendConnId = connectionId;
+
+    // Dashboards list the calls in progress, so a new tab starts from the current set
+    if (this.getSessionType() === 'logs') {
+      this.sendToWebSocket(ws, { type: 'active_calls', calls: this.getActiveCalls() });
+    }
     
     // No replay - live transcript only from this point forward
     console.log('Frontend connected for live transcript');
@@ -205,14 +612,32 @@ export class SessionManager implements DurableObject {
         this.session.latestMediaTimestamp = 0;
         this.session.lastAssistantItem = undefined;
         this.session.responseStartTimestamp = undefined;
-        console.log('Call started - Stream SID:', this.session.streamSid, 'Call SID:', this.session.callSid);
+        this.session.callMetadata = parseStreamParameters(msg.start.customParameters);
+        // A transfer nobody answered restarts the stream, but the call itself started with the first one
+        this.session.callStartedAt ??= Date.now();
+        this.session.streamClosedAt = undefined;
+        console.log('Call started - Stream SID:', this.session.streamSid, 'Call SID:', this.session.callSid, {
+          routingReason: this.session.callMetadata.routingReason,
+          claimedBy: this.session.callMetadata.claimedBy
+        });
+        await this.saveSession();
+        await this.broadcastToSharedLogsSession({
+          type: 'call_started',
+          callSid: this.session.callSid,
+          routingReason: this.session.callMetadata.routingReason,
+          claimedBy: this.session.callMetadata.claimedBy,
+          claimedByName: this.session.callMetadata.claimedByName,
+          startedAt: Date.now()
+        });
         await this.tryConnectModel();
         break;
 
       case 'media':
         this.session.latestMediaTimestamp = msg.media.timestamp;
-        if (this.session.modelConnId) {
-          const modelWs = this.websockets.get(this.session.modelConnId);
+        this.sendMonitorAudio('caller', msg.media.payload);
+        // The assistant stops listening once a handoff has started or an operator has the floor
+        if (this.session.modelConnId && !this.isTransferInProgress() && !this.operatorHasFloor()) {
+          const modelWs = this.getWebSocket(this.session.modelConnId);
           if (modelWs && modelWs.readyState === WebSocket.READY_STATE_OPEN) {
             this.sendToWebSocket(modelWs, {
               type: 'input_audio_buffer.append',
@@ -223,7 +648,7 @@ export class SessionManager implements DurableObject {
         break;
 
       case 'close':
-        this.cleanupAllConnections();
+        await this.cleanupAllConnections();
         break;
     }
   }
@@ -233,38 +658,228 @@ export class SessionManager implements DurableObject {
     
     this.updateActivity(); // Track activity on every message
 
-    // Handle hold music control messages from frontend
-    if (msg.type === 'hold_music.start') {
-      console.log('Frontend requested hold music start');
-      if (!this.holdMusicService.isHoldMusicPlaying()) {
-        await this.holdMusicService.startHoldMusic(
-          (audioChunk: string) => this.sendAudioToStream(audioChunk),
-          msg.holdMusicType
-        );
+    // Sockets on a call's own session belong to the operator who claimed the call
+    if (this.getSessionType() === 'call') {
+      const attachment = ws.deserializeAttachment() as SocketAttachment;
+      if (!CALL_SOCKET_MESSAGE_TYPES.includes(msg.type)) {
+        console.log('Ignoring unsupported call socket message:', { connectionId, type: msg.type, operatorId: attachment.operatorId });
+        return;
+      }
+      if (!this.holdsClaim(attachment.operatorId)) {
+        console.log('Ignoring call socket message from an operator who has not claimed the call:', { connectionId, type: msg.type, operatorId: attachment.operatorId });
+        return;
       }
+    }
+
+    // Operator barge-in: push-to-talk audio from the dashboard goes straight to the caller
+    if (msg.type === 'barge_in.start') {
+      await this.startBargeIn(connectionId, ws.deserializeAttachment() as SocketAttachment);
       return;
     }
 
-    if (msg.type === 'hold_music.stop') {
-      console.log('Frontend requested hold music stop');
-      if (this.holdMusicService.isHoldMusicPlaying()) {
-        await this.holdMusicService.stopHoldMusic();
+    if (msg.type === 'barge_in.audio') {
+      if (this.session.bargeInConnId === connectionId && typeof msg.audio === 'string') {
+        this.sendAudioToStream(msg.audio);
       }
       return;
     }
 
-    // Forward to model connection if available
-    if (this.session.modelConnId) {
-      const modelWs = this.websockets.get(this.session.modelConnId);
-      if (modelWs && modelWs.readyState === WebSocket.READY_STATE_OPEN) {
-        this.sendToWebSocket(modelWs, msg);
+    if (msg.type === 'barge_in.stop') {
+      if (this.session.bargeInConnId === connectionId) {
+        this.stopBargeIn();
       }
+      return;
+    }
+
+    // Whisper: private guidance for the assistant that the caller never hears
+    if (msg.type === 'whisper') {
+      await this.handleWhisper(msg.text, ws.deserializeAttachment() as SocketAttachment);
+      return;
+    }
+
+    // Listen-in: this socket starts or stops receiving both legs of the call audio
+    if (msg.type === 'monitor.start' || msg.type === 'monitor.stop') {
+      const attachment = ws.deserializeAttachment() as SocketAttachment;
+      ws.serializeAttachment({ ...attachment, monitoring: msg.type === 'monitor.start' });
+      console.log('Frontend listen-in changed:', { connectionId, monitoring: msg.type === 'monitor.start' });
+      return;
+    }
+
+    // Call controls: run here on a call socket, or pass on from the shared logs socket
+    if (CONTROL_MESSAGE_TYPES.includes(msg.type)) {
+      const result = this.getSessionType() === 'call'
+        ? await this.runControlMessage(msg)
+        : await this.forwardControlMessage(msg, ws.deserializeAttachment() as SocketAttachment);
+      this.sendToWebSocket(ws, {
+        type: result.success ? 'control.ack' : 'control.error',
+        action: msg.type,
+        callSid: msg.callSid,
+        requestId: msg.requestId,
+        message: result.message,
+      });
+      return;
     }
 
+    // Settings for this call - stored as a per-call override and applied live
     if (msg.type === 'session.update') {
+      const error = validateSessionConfig(msg.session);
+      if (error) {
+        console.log('Ignoring invalid frontend configuration:', { error });
+        return;
+      }
       console.log('Frontend configuration updated');
-      this.session.config = msg.session;
+      await this.applyCallSessionConfig(msg.session);
+      return;
+    }
+
+    console.log('Ignoring unsupported frontend message:', { connectionId, type: msg.type });
+  }
+
+  /**
+   * Pass a call control from the shared logs object to the call it targets
+   */
+  private async forwardControlMessage(msg: ControlMessage, attachment: SocketAttachment): Promise<ControlResult> {
+    if (typeof msg.callSid !== 'string' || !msg.callSid) {
+      return { success: false, message: 'callSid is required' };
+    }
+
+    try {
+      const callId = this.env.SESSION_MANAGER.idFromName(`call-${msg.callSid}`);
+      const response = await this.env.SESSION_MANAGER.get(callId).fetch(new Request('https://dummy.com/control', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', [SESSION_NAME_HEADER]: `call-${msg.callSid}` },
+        body: JSON.stringify({ message: msg, operatorId: attachment.operatorId })
+      }));
+      return await response.json() as ControlResult;
+    } catch (error) {
+      console.error('Error forwarding call control:', error);
+      return { success: false, message: 'Could not reach the call' };
+    }
+  }
+
+  /**
+   * Carry out a dashboard call control against this call's Twilio and model connections
+   */
+  private async runControlMessage(msg: ControlMessage): Promise<ControlResult> {
+    if (!this.session.twilioConnId) {
+      return { success: false, message: 'Call is not connected' };
+    }
+
+    switch (msg.type) {
+      case 'hold_music.start':
+        console.log('Frontend requested hold music start');
+        if (!this.holdMusicService.isHoldMusicPlaying()) {
+          await this.holdMusicService.startHoldMusic(
+            (audioChunk: string) => this.sendAudioToStream(audioChunk),
+            msg.holdMusicType
+          );
+        }
+        return { success: true, message: 'Hold music started' };
+
+      case 'hold_music.stop':
+        console.log('Frontend requested hold music stop');
+        if (this.holdMusicService.isHoldMusicPlaying()) {
+          await this.holdMusicService.stopHoldMusic();
+        }
+        return { success: true, message: 'Hold music stopped' };
+
+      case 'function_call_output': {
+        const modelWs = this.session.modelConnId ? this.getWebSocket(this.session.modelConnId) : undefined;
+        if (!modelWs || modelWs.readyState !== WebSocket.READY_STATE_OPEN) {
+          return { success: false, message: 'Assistant is not connected' };
+        }
+        if (typeof msg.call_id !== 'string' || !msg.call_id) {
+          return { success: false, message: 'call_id is required' };
+        }
+
+        // The call was on hold while the operator worked out the answer
+        if (this.holdMusicService.isHoldMusicPlaying()) {
+          console.log('Stopping hold music after operator function output');
+          await this.holdMusicService.stopHoldMusic();
+        }
+
+        this.sendToWebSocket(modelWs, {
+          type: 'conversation.item.create',
+          item: {
+            type: 'function_call_output',
+            call_id: msg.call_id,
+            output: typeof msg.output === 'string' ? msg.output : '',
+          },
+        });
+        // Ask the model to continue after providing the tool response
+        this.sendToWebSocket(modelWs, { type: 'response.create' });
+        this.session.functionCalls = setFunctionOutput(this.session.functionCalls, msg.call_id, msg.output || '');
+        await this.saveSession();
+        return { success: true, message: 'Function output sent' };
+      }
+
+      default:
+        return { success: false, message: `Unsupported control: ${msg.type}` };
+    }
+  }
+
+  /**
+   * Store per-call settings and, if the assistant is already connected, update it
+   * straight away. Returns whether the live session was updated.
+   */
+  private async applyCallSessionConfig(config: AssistantSessionConfig): Promise<boolean> {
+    this.session.config = { ...this.session.config, ...pickSessionConfig(config) };
+    await this.saveSession();
+
+    const modelWs = this.session.modelConnId ? this.getWebSocket(this.session.modelConnId) : undefined;
+    if (!modelWs || modelWs.readyState !== WebSocket.READY_STATE_OPEN) {
+      return false;
+    }
+
+    this.sendToWebSocket(modelWs, this.buildSessionUpdate(await this.resolveCallSessionConfig()));
+    return true;
+  }
+
+  /**
+   * Resolve this call's settings from the stored profiles and any per-call override
+   */
+  private async resolveCallSessionConfig(): Promise<AssistantSessionConfig> {
+    let profiles: Record<string, SessionConfigProfile> = {};
+    try {
+      const configId = this.env.SESSION_MANAGER.idFromName('routing-config');
+      const response = await this.env.SESSION_MANAGER.get(configId).fetch(new Request('https://dummy.com/session-config/get', {
+        headers: { [SESSION_NAME_HEADER]: 'routing-config' }
+      }));
+      profiles = await response.json() as Record<string, SessionConfigProfile>;
+    } catch (error) {
+      console.error('Error loading session config profiles:', error);
     }
+
+    return resolveSessionConfig(profiles, this.session.callMetadata?.calledNumber, this.session.config);
+  }
+
+  /**
+   * Build the Realtime session.update for this call: defaults, then dashboard settings
+   * with the instructions rendered for this caller, then backend tools merged in.
+   * The greeting is ours, not a Realtime session field, so it is left out.
+   */
+  private buildSessionUpdate(config: AssistantSessionConfig): WebSocketMessage {
+    const { greeting, instructions, tools, ...settings } = config;
+    const backendTools = functions.map(f => f.schema);
+    // Dashboard tool lists include the backend's own tools, so skip those
+    const frontendTools = (tools || []).filter((tool) => !backendTools.some((schema) => schema.name === tool.name));
+
+    return {
+      type: 'session.update',
+      session: {
+        modalities: ['text', 'audio'],
+        turn_detection: { type: 'server_vad' },
+        voice: 'sage', // Default fallback
+        input_audio_transcription: { model: 'whisper-1' },
+        input_audio_format: 'g711_ulaw',
+        output_audio_format: 'g711_ulaw',
+        ...settings, // Dashboard settings OVERRIDE defaults (including voice)
+        ...(instructions
+          ? { instructions: renderPromptTemplate(instructions, buildTemplateVariables(this.env, this.session.callMetadata || {})) }
+          : {}),
+        tools: [...backendTools, ...frontendTools],
+      },
+    };
   }
 
   private async tryConnectModel(): Promise<void> {
@@ -273,7 +888,7 @@ export class SessionManager implements DurableObject {
     }
 
     if (this.session.modelConnId) {
-      const existingWs = this.websockets.get(this.session.modelConnId);
+      const existingWs = this.getWebSocket(this.session.modelConnId);
       if (existingWs && existingWs.readyState === WebSocket.READY_STATE_OPEN) {
         return;
       }
@@ -308,11 +923,11 @@ export class SessionManager implements DurableObject {
       // Check if WebSocket is already open (likely when using fetch)
       if (modelWs.readyState === WebSocket.READY_STATE_OPEN) {
         console.log('OpenAI WebSocket connected');
-        this.websockets.set(modelConnectionId, modelWs);
+        this.modelWs = modelWs;
       } else {
         modelWs.addEventListener('open', () => {
           console.log('OpenAI WebSocket connected');
-          this.websockets.set(modelConnectionId, modelWs);
+          this.modelWs = modelWs;
           // Note: Don't send session.update immediately - wait for session.created event
         });
       }
@@ -326,8 +941,7 @@ export class SessionManager implements DurableObject {
       });
 
       modelWs.addEventListener('close', () => {
-        this.websockets.delete(modelConnectionId);
-        this.session.modelConnId = undefined;
+        this.clearModelConnection(modelConnectionId);
       });
 
       modelWs.addEventListener('error', (error: any) => {
@@ -337,8 +951,7 @@ export class SessionManager implements DurableObject {
           type: error.type || 'Unknown type',
           target: error.target || 'Unknown target'
         });
-        this.websockets.delete(modelConnectionId);
-        this.session.modelConnId = undefined;
+        this.clearModelConnection(modelConnectionId);
       });
 
     } catch (error) {
@@ -346,51 +959,60 @@ export class SessionManager implements DurableObject {
     }
   }
 
+  private clearModelConnection(connectionId: string): void {
+    // Ignore late events from a model socket that has already been replaced
+    if (this.session.modelConnId !== connectionId) return;
+    this.modelWs = undefined;
+    this.session.modelConnId = undefined;
+  }
+
   private async handleModelMessage(event: any): Promise<void> {
     if (!event) return;
 
-    // Forward to frontend if connected (live transcript only)
-    if (this.session.frontendConnId) {
-      const frontendWs = this.websockets.get(this.session.frontendConnId);
-      if (frontendWs && frontendWs.readyState === WebSocket.READY_STATE_OPEN) {
-        this.sendToWebSocket(frontendWs, event);
-      }
-    }
-
-    // Broadcast transcript events to all frontends via shared logs session
+    // Transcript and function call events go to the dashboards. Audio never
+    // does - listen-in gets it as monitor.audio, and only when subscribed.
     if (this.shouldBroadcastToFrontends(event)) {
+      if (this.session.frontendConnId) {
+        const frontendWs = this.getWebSocket(this.session.frontendConnId);
+        if (frontendWs && frontendWs.readyState === WebSocket.READY_STATE_OPEN) {
+          this.sendToWebSocket(frontendWs, event);
+        }
+      }
       await this.broadcastToSharedLogsSession(event);
     }
 
     switch (event.type) {
-      case 'session.created':
+      case 'session.created': {
         // NOW send our session configuration after OpenAI creates the session
-        const config = this.session.config || {};
-        console.log('Applying session configuration:', config.voice || 'ash');
+        const config = await this.resolveCallSessionConfig();
+        console.log('Applying session configuration:', config.voice || 'sage');
+
+        // Fill in {{placeholders}} for this caller
+        const greetingText = renderPromptTemplate(
+          config.greeting?.trim() ? config.greeting : DEFAULT_GREETING_TEMPLATE,
+          buildTemplateVariables(this.env, this.session.callMetadata || {})
+        );
         
         if (this.session.modelConnId) {
-          const modelWs = this.websockets.get(this.session.modelConnId);
+          const modelWs = this.getWebSocket(this.session.modelConnId);
           if (modelWs && modelWs.readyState === WebSocket.READY_STATE_OPEN) {
-            // Merge backend functions with frontend tools
-            const backendTools = functions.map(f => f.schema);
-            const frontendTools = config.tools || [];
-            const allTools = [...backendTools, ...frontendTools];
-
-            this.sendToWebSocket(modelWs, {
-              type: 'session.update',
-              session: {
-                modalities: ['text', 'audio'],
-                turn_detection: { type: 'server_vad' },
-                voice: 'sage', // Default fallback
-                input_audio_transcription: { model: 'whisper-1' },
-                input_audio_format: 'g711_ulaw',
-                output_audio_format: 'g711_ulaw',
-                ...config, // Frontend config OVERRIDES defaults (including voice)
-                tools: allTools, // Ensure tools don't get overridden
-              },
-            });
-
-            // Add greeting message
+            this.sendToWebSocket(modelWs, this.buildSessionUpdate(config));
+
+            // Tell the assistant who is calling and how the call reached it
+            const callDetails = describeCallMetadata(this.session.callMetadata || {});
+            if (callDetails) {
+              this.sendToWebSocket(modelWs, {
+                type: 'conversation.item.create',
+                item: {
+                  type: 'message',
+                  role: 'system',
+                  content: [{ type: 'input_text', text: callDetails }]
+                }
+              });
+            }
+
+            // Add greeting message, unless the caller is back from a transfer nobody answered
+            const resumeNote = await this.takeTransferResumeNote();
             this.sendToWebSocket(modelWs, {
               type: 'conversation.item.create',
               item: {
@@ -399,7 +1021,7 @@ export class SessionManager implements DurableObject {
                 content: [
                   {
                     type: 'input_text',
-                    text: "When the call starts, greet the caller by saying 'Thank you for calling Fluffhead Pharmacy, where our intent is all for your delight. This is the pharmacist speaking, how may I assist you today?'"
+                    text: resumeNote || greetingText
                   }
                 ]
               }
@@ -409,25 +1031,46 @@ export class SessionManager implements DurableObject {
           }
         }
         break;
+      }
 
       case 'input_audio_buffer.speech_started':
         this.handleTruncation();
         break;
 
+      // Keep finished turns so a handoff can be summarised for the pharmacist
+      case 'conversation.item.input_audio_transcription.completed':
+        if (event.transcript?.trim()) {
+          this.recordTranscript('caller', event.transcript);
+          await this.saveSession();
+        }
+        break;
+
+      case 'response.audio_transcript.done':
+        if (event.transcript?.trim()) {
+          this.recordTranscript('assistant', event.transcript);
+          await this.saveSession();
+        }
+        break;
+
       case 'response.audio.delta':
+        // The operator has the floor - drop anything the assistant was still saying
+        if (this.operatorHasFloor()) {
+          break;
+        }
         if (this.session.twilioConnId && this.session.streamSid) {
           if (this.session.responseStartTimestamp === undefined) {
             this.session.responseStartTimestamp = this.session.latestMediaTimestamp || 0;
           }
           if (event.item_id) this.session.lastAssistantItem = event.item_id;
 
-          const twilioWs = this.websockets.get(this.session.twilioConnId);
+          const twilioWs = this.getWebSocket(this.session.twilioConnId);
           if (twilioWs && twilioWs.readyState === WebSocket.READY_STATE_OPEN) {
             this.sendToWebSocket(twilioWs, {
               event: 'media',
               streamSid: this.session.streamSid,
               media: { payload: event.delta },
             });
+            this.sendMonitorAudio('assistant', event.delta);
 
             this.sendToWebSocket(twilioWs, {
               event: 'mark',
@@ -440,6 +1083,13 @@ export class SessionManager implements DurableObject {
       case 'response.output_item.done': {
         const { item } = event;
         if (item.type === 'function_call') {
+          this.session.functionCalls = appendFunctionCall(this.session.functionCalls, {
+            callId: item.call_id,
+            name: item.name,
+            arguments: item.arguments
+          });
+          await this.saveSession();
+
           // Start hold music when function call begins
           if (!this.holdMusicService.isHoldMusicPlaying()) {
             console.log('Starting hold music for function call');
@@ -455,6 +1105,17 @@ export class SessionManager implements DurableObject {
     }
   }
 
+  /**
+   * Add a finished turn to the call transcript, noting when older lines had to be dropped
+   */
+  private recordTranscript(role: TranscriptEntry['role'], text: string): void {
+    const { transcript, truncated } = appendTranscript(this.session.transcript, role, text);
+    this.session.transcript = transcript;
+    if (truncated) {
+      this.session.transcriptTruncated = true;
+    }
+  }
+
   private async handleFunctionCall(item: { name: string; arguments: string; call_id?: string }): Promise<void> {
     console.log('Handling function call:', item);
     const fnDef = functions.find((f) => f.schema.name === item.name);
@@ -472,7 +1133,19 @@ export class SessionManager implements DurableObject {
 
     try {
       console.log('Calling function:', fnDef.schema.name, args);
-      const result = await fnDef.handler(args as any);
+      const result = await fnDef.handler(args as any, {
+        callSid: this.session.callSid,
+        metadata: this.session.callMetadata || {},
+        transferToPharmacist: (reason: string) => this.startWarmTransfer(reason, 'assistant')
+      });
+      // Handlers return their output already serialised
+      this.session.functionCalls = setFunctionOutput(this.session.functionCalls, item.call_id, result);
+      await this.saveSession();
+
+      // The caller is on hold for the pharmacist now - leave the hold audio and the paused model alone
+      if (this.isTransferInProgress()) {
+        return;
+      }
       
       // Stop hold music when function completes
       if (this.holdMusicService.isHoldMusicPlaying()) {
@@ -481,14 +1154,14 @@ export class SessionManager implements DurableObject {
       }
       
       if (this.session.modelConnId) {
-        const modelWs = this.websockets.get(this.session.modelConnId);
+        const modelWs = this.getWebSocket(this.session.modelConnId);
         if (modelWs && modelWs.readyState === WebSocket.READY_STATE_OPEN) {
           this.sendToWebSocket(modelWs, {
             type: 'conversation.item.create',
             item: {
               type: 'function_call_output',
               call_id: item.call_id,
-              output: JSON.stringify(result),
+              output: result,
             },
           });
           this.sendToWebSocket(modelWs, { type: 'response.create' });
@@ -505,32 +1178,244 @@ export class SessionManager implements DurableObject {
     }
   }
 
-  private handleTruncation(): void {
-    if (
-      !this.session.lastAssistantItem ||
-      this.session.responseStartTimestamp === undefined
-    )
-      return;
+  private isTransferInProgress(): boolean {
+    return TRANSFER_IN_PROGRESS.includes(this.session.transfer?.status as CallTransferStatus);
+  }
 
-    const elapsedMs =
-      (this.session.latestMediaTimestamp || 0) - (this.session.responseStartTimestamp || 0);
-    const audio_end_ms = elapsedMs > 0 ? elapsedMs : 0;
+  /**
+   * Hand the live call to a pharmacist: pause the assistant, play hold audio while the
+   * summary is generated, then redirect the call to <Dial> the pharmacist
+   */
+  private async startWarmTransfer(reason: string, requestedBy: string): Promise<TransferResult> {
+    const pharmacistNumber = this.env.PHARMACIST_NUMBER as string | undefined;
+    if (!pharmacistNumber || !/^\+?\d{7,15}$/.test(pharmacistNumber)) {
+      return { success: false, message: 'No pharmacist number is configured' };
+    }
+    if (!this.session.callSid || !this.session.twilioConnId) {
+      return { success: false, message: 'There is no live call to transfer' };
+    }
+    if (this.isTransferInProgress()) {
+      return { success: false, message: 'A transfer is already in progress' };
+    }
 
-    if (this.session.modelConnId) {
-      const modelWs = this.websockets.get(this.session.modelConnId);
-      if (modelWs && modelWs.readyState === WebSocket.READY_STATE_OPEN) {
-        this.sendToWebSocket(modelWs, {
-          type: 'conversation.item.truncate',
-          item_id: this.session.lastAssistantItem,
-          content_index: 0,
-          audio_end_ms,
-        });
-      }
+    const callSid = this.session.callSid;
+    this.session.transfer = { status: 'summarizing', reason, requestedBy, startedAt: Date.now() };
+    await this.saveSession();
+    console.log('Starting warm transfer:', { callSid, requestedBy, reason });
+
+    this.pauseModel();
+    if (!this.holdMusicService.isHoldMusicPlaying()) {
+      await this.holdMusicService.startHoldMusic(
+        (audioChunk: string) => this.sendAudioToStream(audioChunk)
+      );
     }
 
-    if (this.session.twilioConnId && this.session.streamSid) {
-      const twilioWs = this.websockets.get(this.session.twilioConnId);
-      if (twilioWs && twilioWs.readyState === WebSocket.READY_STATE_OPEN) {
+    const summary = await summarizeTranscript(this.env, this.session.transcript || [], reason);
+
+    let redirected = false;
+    try {
+      redirected = await updateLiveCall(this.env, callSid, buildTransferTwiml(this.env.PUBLIC_URL, pharmacistNumber));
+    } catch (error) {
+      console.error('Error redirecting call to pharmacist:', error);
+    }
+
+    this.session.transfer = { ...this.session.transfer, status: redirected ? 'dialing' : 'failed', summary };
+    await this.saveSession();
+    await this.broadcastToSharedLogsSession({
+      type: 'call_transfer',
+      callSid,
+      status: this.session.transfer.status,
+      reason,
+      requestedBy,
+      summary,
+      timestamp: Date.now()
+    });
+
+    if (!redirected) {
+      await this.holdMusicService.stopHoldMusic();
+      // A failed tool call is answered through its function output instead
+      if (requestedBy !== 'assistant') {
+        this.resumeModel('The transfer to a pharmacist did not go through. Apologise to the caller and keep helping them.');
+      }
+      return { success: false, message: 'The call could not be transferred to a pharmacist' };
+    }
+
+    return { success: true, message: 'The caller is being transferred to a pharmacist' };
+  }
+
+  /**
+   * The note that hands the call back to a fresh assistant session after the
+   * pharmacist did not answer. Only given once per transfer.
+   */
+  private async takeTransferResumeNote(): Promise<string | null> {
+    const transfer = this.session.transfer;
+    if (transfer?.status !== 'unanswered' || transfer.resumedAt) {
+      return null;
+    }
+
+    this.session.transfer = { ...transfer, resumedAt: Date.now() };
+    await this.saveSession();
+    return [
+      'You tried to transfer this caller to a pharmacist, but nobody answered. Apologise, let them know a pharmacist can call them back, and keep helping them.',
+      transfer.summary ? `Summary of the call so far:\n${transfer.summary}` : '',
+    ].filter(Boolean).join('\n\n');
+  }
+
+  /**
+   * Stop the assistant mid-response and drop any audio already queued on Twilio
+   */
+  private pauseModel(): void {
+    if (this.session.modelConnId) {
+      const modelWs = this.getWebSocket(this.session.modelConnId);
+      if (modelWs && modelWs.readyState === WebSocket.READY_STATE_OPEN) {
+        this.sendToWebSocket(modelWs, { type: 'response.cancel' });
+      }
+    }
+
+    if (this.session.twilioConnId && this.session.streamSid) {
+      const twilioWs = this.getWebSocket(this.session.twilioConnId);
+      if (twilioWs) {
+        this.sendToWebSocket(twilioWs, { event: 'clear', streamSid: this.session.streamSid });
+      }
+    }
+  }
+
+  /**
+   * Let one dashboard socket talk to the caller, muting the assistant until it stops
+   */
+  private async startBargeIn(connectionId: string, attachment: SocketAttachment): Promise<void> {
+    if (!this.session.twilioConnId || !this.session.streamSid) {
+      console.log('Ignoring barge-in without a live call');
+      return;
+    }
+    if (!this.holdsClaim(attachment.operatorId)) {
+      console.log('Ignoring barge-in from an operator who has not claimed the call:', { connectionId, operatorId: attachment.operatorId });
+      return;
+    }
+    if (this.session.bargeInConnId && this.session.bargeInConnId !== connectionId) {
+      console.log('Ignoring barge-in while another operator is talking');
+      return;
+    }
+
+    this.session.bargeInConnId = connectionId;
+    this.pauseModel();
+    if (this.holdMusicService.isHoldMusicPlaying()) {
+      await this.holdMusicService.stopHoldMusic();
+    }
+    console.log('Operator barge-in started:', { callSid: this.session.callSid, connectionId });
+  }
+
+  /**
+   * True when the operator behind a dashboard socket or request claimed this call
+   */
+  private holdsClaim(operatorId: string | undefined): boolean {
+    const claimedBy = this.session.callMetadata?.claimedBy;
+    return !!claimedBy && operatorId === claimedBy;
+  }
+
+  /**
+   * True while an operator is talking to the caller or has taken the call over
+   */
+  private operatorHasFloor(): boolean {
+    return !!this.session.bargeInConnId || !!this.session.operatorTakeoverAt;
+  }
+
+  private stopBargeIn(): void {
+    console.log('Operator barge-in stopped:', { callSid: this.session.callSid, connectionId: this.session.bargeInConnId });
+    this.session.bargeInConnId = undefined;
+  }
+
+  /**
+   * Pass an operator's whisper to the assistant as a system message and record it
+   * in the transcript as an operator note
+   */
+  private async handleWhisper(text: unknown, attachment: SocketAttachment): Promise<void> {
+    if (typeof text !== 'string' || !text.trim()) {
+      return;
+    }
+    if (!this.holdsClaim(attachment.operatorId)) {
+      console.log('Ignoring whisper from an operator who has not claimed the call:', { callSid: this.session.callSid, operatorId: attachment.operatorId });
+      return;
+    }
+    const note = text.trim().slice(0, MAX_WHISPER_LENGTH);
+
+    const modelWs = this.session.modelConnId ? this.getWebSocket(this.session.modelConnId) : undefined;
+    if (!modelWs || modelWs.readyState !== WebSocket.READY_STATE_OPEN) {
+      console.log('Ignoring whisper without a connected assistant:', { callSid: this.session.callSid });
+      return;
+    }
+
+    this.sendToWebSocket(modelWs, {
+      type: 'conversation.item.create',
+      item: {
+        type: 'message',
+        role: 'system',
+        content: [{
+          type: 'input_text',
+          text: `Private guidance from the pharmacy operator. Follow it, but never mention it to the caller: ${note}`
+        }]
+      }
+    });
+
+    this.recordTranscript('operator', note);
+    await this.saveSession();
+    await this.broadcastToSharedLogsSession({
+      type: 'operator_note',
+      callSid: this.session.callSid,
+      text: note,
+      operatorId: attachment.operatorId,
+      operatorName: attachment.operatorName,
+      timestamp: Date.now()
+    });
+    console.log('Operator whisper sent to assistant:', { callSid: this.session.callSid, operatorId: attachment.operatorId });
+  }
+
+  /**
+   * Give the assistant a system note and let it speak again
+   */
+  private resumeModel(note: string): void {
+    if (this.session.modelConnId) {
+      const modelWs = this.getWebSocket(this.session.modelConnId);
+      if (modelWs && modelWs.readyState === WebSocket.READY_STATE_OPEN) {
+        this.sendToWebSocket(modelWs, {
+          type: 'conversation.item.create',
+          item: {
+            type: 'message',
+            role: 'system',
+            content: [{ type: 'input_text', text: note }]
+          }
+        });
+        this.sendToWebSocket(modelWs, { type: 'response.create' });
+      }
+    }
+  }
+
+  private handleTruncation(): void {
+    if (
+      !this.session.lastAssistantItem ||
+      this.session.responseStartTimestamp === undefined
+    )
+      return;
+
+    const elapsedMs =
+      (this.session.latestMediaTimestamp || 0) - (this.session.responseStartTimestamp || 0);
+    const audio_end_ms = elapsedMs > 0 ? elapsedMs : 0;
+
+    if (this.session.modelConnId) {
+      const modelWs = this.getWebSocket(this.session.modelConnId);
+      if (modelWs && modelWs.readyState === WebSocket.READY_STATE_OPEN) {
+        this.sendToWebSocket(modelWs, {
+          type: 'conversation.item.truncate',
+          item_id: this.session.lastAssistantItem,
+          content_index: 0,
+          audio_end_ms,
+        });
+      }
+    }
+
+    if (this.session.twilioConnId && this.session.streamSid) {
+      const twilioWs = this.getWebSocket(this.session.twilioConnId);
+      if (twilioWs && twilioWs.readyState === WebSocket.READY_STATE_OPEN) {
         this.sendToWebSocket(twilioWs, {
           event: 'clear',
           streamSid: this.session.streamSid,
@@ -542,16 +1427,23 @@ export class SessionManager implements DurableObject {
     this.session.responseStartTimestamp = undefined;
   }
 
-  private cleanupCallConnection(): void {
+  /**
+   * Tear down a closed Twilio stream. The call itself may go on - a transfer
+   * replaces the stream, and may hand the caller back to a new one - so the
+   * transcript is kept and the end-of-call pipeline waits for Twilio's completed
+   * status callback. Without a transfer pending, the call is ended anyway once
+   * STREAM_CLOSED_GRACE_MS passes with no callback or new stream.
+   */
+  private async cleanupCallConnection(): Promise<void> {
     // Clean up hold music when call ends
     this.holdMusicService.resetHoldMusicState();
     
     if (this.session.modelConnId) {
-      const modelWs = this.websockets.get(this.session.modelConnId);
+      const modelWs = this.getWebSocket(this.session.modelConnId);
       if (modelWs) {
         modelWs.close();
       }
-      this.websockets.delete(this.session.modelConnId);
+      this.modelWs = undefined;
     }
 
     this.session.twilioConnId = undefined;
@@ -562,30 +1454,40 @@ export class SessionManager implements DurableObject {
     this.session.responseStartTimestamp = undefined;
     this.session.latestMediaTimestamp = undefined;
     
+    if (!this.isTransferInProgress()) {
+      this.session.streamClosedAt = Date.now();
+    }
+
     // Update activity and schedule cleanup check since call ended
     this.updateActivity();
-    this.scheduleActivityCheck();
+    await this.saveSession();
+    if (this.session.streamClosedAt) {
+      await this.ctx.storage.setAlarm(this.session.streamClosedAt + STREAM_CLOSED_GRACE_MS);
+    } else {
+      await this.scheduleActivityCheck();
+    }
   }
 
-  private cleanupAllConnections(): void {
+  private async cleanupAllConnections(): Promise<void> {
+    // Save the call before its state goes, in case the completed status callback never came
+    await this.finishCall(Date.now());
+
     // Clean up hold music when connections close
     this.holdMusicService.resetHoldMusicState();
     
-    // Clear cleanup timer
-    if (this.cleanupTimer) {
-      clearTimeout(this.cleanupTimer);
-      this.cleanupTimer = undefined;
-    }
-    
-    for (const [id, ws] of this.websockets) {
+    for (const ws of this.ctx.getWebSockets()) {
       if (ws.readyState === WebSocket.READY_STATE_OPEN) {
         ws.close();
       }
     }
-    this.websockets.clear();
+    if (this.modelWs && this.modelWs.readyState === WebSocket.READY_STATE_OPEN) {
+      this.modelWs.close();
+    }
+    this.modelWs = undefined;
     
-    // Complete session reset
+    // Complete session reset, including persisted state
     this.session = {};
+    await this.clearSession();
     
     console.log('Session cleaned up completely');
   }
@@ -598,6 +1500,18 @@ export class SessionManager implements DurableObject {
 
 
 
+  /**
+   * Fan a µ-law audio chunk out to every dashboard socket listening in on this call
+   */
+  private sendMonitorAudio(leg: MonitorLeg, audio: string): void {
+    for (const ws of this.ctx.getWebSockets('logs')) {
+      const attachment = ws.deserializeAttachment() as SocketAttachment | null;
+      if (attachment?.monitoring) {
+        this.sendToWebSocket(ws, { type: 'monitor.audio', leg, audio });
+      }
+    }
+  }
+
   private shouldBroadcastToFrontends(event: any): boolean {
     // Broadcast events that frontends need to see for real-time transcript
     const broadcastEvents = [
@@ -621,8 +1535,9 @@ export class SessionManager implements DurableObject {
       
       await logsSession.fetch(new Request('https://dummy.com/broadcast', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(event)
+        headers: { 'Content-Type': 'application/json', [SESSION_NAME_HEADER]: 'logs-shared' },
+        // Tag with the call so dashboards can keep concurrent calls apart
+        body: JSON.stringify({ ...event, callSid: event.callSid || this.session.callSid })
       }));
       
       console.log(`Broadcast transcript event to frontends: ${event.type}`);
@@ -631,6 +1546,112 @@ export class SessionManager implements DurableObject {
     }
   }
 
+  /**
+   * End-of-call pipeline: mark the call ended on dashboards, summarise the
+   * transcript, broadcast the summary, then save the call to the history store.
+   * Runs once per call, and only for calls that had a media stream.
+   */
+  private async finishCall(endedAt: number): Promise<void> {
+    const callSid = this.getObjectCallSid();
+    if (!callSid || !this.session.callStartedAt || this.session.callEndedAt) {
+      return;
+    }
+
+    // Mark the call ended first, so a repeated status callback does nothing meanwhile.
+    // The history row matters more than the marker, so a failed write doesn't stop it.
+    this.session.callEndedAt = endedAt;
+    try {
+      await this.saveSession();
+    } catch (error) {
+      console.error('Error saving ended call session:', error);
+    }
+
+    const call = { ...this.session };
+    console.log('Call ended:', { callSid });
+
+    await this.broadcastToSharedLogsSession({ type: 'call_ended', callSid, timestamp: endedAt });
+
+    const summary = await summarizeFinishedCall(
+      this.env,
+      call.transcript || [],
+      call.functionCalls || [],
+      call.transfer?.status
+    );
+    if (summary) {
+      await this.broadcastToSharedLogsSession({ type: 'call.summary', callSid, summary, timestamp: Date.now() });
+    }
+
+    await this.saveCallHistory(callSid, call, endedAt, summary);
+  }
+
+  /**
+   * Save a finished call to the call history store, if one is bound
+   */
+  private async saveCallHistory(
+    callSid: string,
+    call: Session,
+    endedAt: number,
+    summary: PostCallSummary | null
+  ): Promise<void> {
+    if (!this.env.CALL_HISTORY) return;
+
+    const metadata = call.callMetadata || {};
+    const startedAt = call.callStartedAt || endedAt;
+    try {
+      await saveCallRecord(this.env.CALL_HISTORY, {
+        callSid,
+        partialNumber: metadata.callerNumber ? toPartialNumber(metadata.callerNumber) : undefined,
+        calledNumber: metadata.calledNumber,
+        routingReason: metadata.routingReason,
+        claimedBy: metadata.claimedBy,
+        claimedByName: metadata.claimedByName,
+        transferStatus: call.transfer?.status,
+        startedAt,
+        endedAt,
+        durationMs: endedAt - startedAt,
+        summary: summary ?? undefined,
+        transcript: call.transcript || [],
+        transcriptTruncated: call.transcriptTruncated,
+        functionCalls: call.functionCalls || []
+      });
+      console.log('Saved call to history:', { callSid });
+    } catch (error) {
+      console.error('Error saving call history:', error);
+    }
+  }
+
+  /**
+   * Keep logs-shared's list of live calls in step with call_started/call_ended broadcasts
+   */
+  private async trackActiveCall(message: any): Promise<void> {
+    if (typeof message.callSid !== 'string') return;
+    this.session.activeCalls ??= {};
+
+    if (message.type === 'call_started') {
+      this.session.activeCalls[message.callSid] = {
+        callSid: message.callSid,
+        routingReason: message.routingReason,
+        claimedBy: message.claimedBy,
+        claimedByName: message.claimedByName,
+        startedAt: message.startedAt || Date.now()
+      };
+    } else {
+      delete this.session.activeCalls[message.callSid];
+    }
+
+    await this.saveSession();
+  }
+
+  /**
+   * Return the live calls, dropping any whose end was never announced
+   */
+  private getActiveCalls(): ActiveCall[] {
+    const cutoff = Date.now() - ACTIVE_CALL_MAX_AGE_MS;
+    return Object.values(this.session.activeCalls || {})
+      .filter((call) => call.startedAt > cutoff)
+      .sort((a, b) => a.startedAt - b.startedAt);
+  }
+
   private generateConnectionId(): string {
     return Math.random().toString(36).substring(2, 15);
   }
@@ -638,7 +1659,7 @@ export class SessionManager implements DurableObject {
   // Function to send audio to Twilio stream
   private sendAudioToStream(audioChunk: string): void {
     if (this.session.twilioConnId && this.session.streamSid) {
-      const twilioWs = this.websockets.get(this.session.twilioConnId);
+      const twilioWs = this.getWebSocket(this.session.twilioConnId);
       if (twilioWs && twilioWs.readyState === WebSocket.READY_STATE_OPEN) {
         this.sendToWebSocket(twilioWs, {
           event: 'media',
@@ -669,9 +1690,13 @@ export class SessionManager implements DurableObject {
     try {
       const message = await request.json() as any;
       let broadcastCount = 0;
+
+      if (message.type === 'call_started' || message.type === 'call_ended') {
+        await this.trackActiveCall(message);
+      }
       
       // Broadcast to ALL frontend WebSocket connections
-      for (const [connId, ws] of this.websockets.entries()) {
+      for (const ws of this.ctx.getWebSockets('logs')) {
         if (ws.readyState === WebSocket.READY_STATE_OPEN) {
           this.sendToWebSocket(ws, message);
           broadcastCount++;
@@ -687,33 +1712,94 @@ export class SessionManager implements DurableObject {
   }
 
   /**
-   * Handle storing call assignments
+   * Handle claiming a call - compare-and-set on the assignment so only the
+   * first operator wins; later claimants get 409 with the current owner
    */
-  private async handleStore(request: Request): Promise<Response> {
+  private async handleClaim(request: Request): Promise<Response> {
     if (request.method !== 'POST') {
       return new Response('Method Not Allowed', { status: 405 });
     }
 
     try {
-      const data = await request.json() as { sessionId: string; timestamp: number };
+      const data = await request.json() as { sessionId: string; operatorName?: string; timestamp: number };
+
+      // Check and set happen with no await in between, so concurrent claims
+      // delivered to this object cannot interleave
+      if (this.session.assignedTo && this.session.assignedTo !== data.sessionId) {
+        console.log('Rejected conflicting call claim:', {
+          callSid: this.session.callSid,
+          requestedBy: data.sessionId,
+          assignedTo: this.session.assignedTo
+        });
+
+        return new Response(
+          JSON.stringify({
+            claimed: false,
+            assignedTo: this.session.assignedTo,
+            assignedToName: this.session.assignedToName,
+            assignedAt: this.session.assignedAt
+          }),
+          {
+            headers: { 'Content-Type': 'application/json' },
+            status: 409
+          }
+        );
+      }
       
       // Store the assignment in the session
       this.session.assignedTo = data.sessionId;
+      this.session.assignedToName = data.operatorName;
       this.session.assignedAt = data.timestamp;
+      await this.saveSession();
       
       console.log('Stored call assignment:', { 
         callSid: this.session.callSid,
         assignedTo: data.sessionId,
+        assignedToName: data.operatorName,
         timestamp: data.timestamp
       });
 
-      return new Response('OK', { status: 200 });
+      return new Response(
+        JSON.stringify({ claimed: true }),
+        {
+          headers: { 'Content-Type': 'application/json' },
+          status: 200
+        }
+      );
     } catch (error) {
       console.error('Error storing call assignment:', error);
       return new Response('Internal Server Error', { status: 500 });
     }
   }
 
+  /**
+   * Handle releasing a call assignment held by the given operator
+   */
+  private async handleRelease(request: Request): Promise<Response> {
+    if (request.method !== 'POST') {
+      return new Response('Method Not Allowed', { status: 405 });
+    }
+
+    try {
+      const data = await request.json() as { sessionId: string };
+
+      if (this.session.assignedTo !== data.sessionId) {
+        return new Response('Conflict', { status: 409 });
+      }
+
+      this.session.assignedTo = undefined;
+      this.session.assignedToName = undefined;
+      this.session.assignedAt = undefined;
+      await this.saveSession();
+
+      console.log('Released call assignment:', { callSid: this.session.callSid, releasedBy: data.sessionId });
+      return new Response('OK', { status: 200 });
+    } catch (error) {
+      console.error('Error releasing call assignment:', error);
+      return new Response('Internal Server Error', { status: 500 });
+    }
+  }
+
   /**
    * Handle verifying call assignments
    */
@@ -771,7 +1857,7 @@ export class SessionManager implements DurableObject {
       const data = await request.json() as any;
       const { message, timestamp, messageId } = data;
       
-      // Store in session state (this will persist in Durable Object)
+      // Store in session state (written through to Durable Object storage)
       if (!this.session.broadcastMessages) {
         this.session.broadcastMessages = [];
       }
@@ -787,6 +1873,7 @@ export class SessionManager implements DurableObject {
       if (this.session.broadcastMessages.length > 10) {
         this.session.broadcastMessages = this.session.broadcastMessages.slice(-10);
       }
+      await this.saveSession();
       
       console.log('Stored broadcast message:', messageId, message.type);
       return new Response('OK', { 
@@ -888,11 +1975,14 @@ export class SessionManager implements DurableObject {
     }
 
     try {
-      const data = await request.json() as { callerNumber: string; timestamp: number };
+      const data = await request.json() as { callerNumber: string; timestamp: number; locale?: string; calledNumber?: string };
       
       // Store the caller number in the session
       this.session.callerNumber = data.callerNumber;
       this.session.callerTimestamp = data.timestamp;
+      this.session.callerLocale = data.locale;
+      this.session.calledNumber = data.calledNumber;
+      await this.saveSession();
       
       console.log('Stored caller number:', { 
         callSid: this.session.callSid,
@@ -908,7 +1998,201 @@ export class SessionManager implements DurableObject {
   }
 
   /**
-   * Handle verifying last 4 digits
+   * Handle marking a waiting call as abandoned (caller hung up before being claimed)
+   */
+  private async handleMarkAbandoned(request: Request): Promise<Response> {
+    if (request.method !== 'POST') {
+      return new Response('Method Not Allowed', { status: 405 });
+    }
+
+    try {
+      const data = await request.json() as { timestamp: number };
+      this.session.abandonedAt ??= data.timestamp;
+      await this.saveSession();
+
+      console.log('Marked call abandoned:', { session: this.session.objectName, abandonedAt: this.session.abandonedAt });
+      return new Response('OK', { status: 200 });
+    } catch (error) {
+      console.error('Error marking call abandoned:', error);
+      return new Response('Internal Server Error', { status: 500 });
+    }
+  }
+
+  /**
+   * Handle marking a call as answered by the AI without an operator claim
+   */
+  private async handleMarkAutoAnswered(request: Request): Promise<Response> {
+    if (request.method !== 'POST') {
+      return new Response('Method Not Allowed', { status: 405 });
+    }
+
+    try {
+      const data = await request.json() as { timestamp: number };
+      this.session.autoAnsweredAt ??= data.timestamp;
+      await this.saveSession();
+
+      console.log('Marked call auto-answered:', { session: this.session.objectName, autoAnsweredAt: this.session.autoAnsweredAt });
+      return new Response('OK', { status: 200 });
+    } catch (error) {
+      console.error('Error marking call auto-answered:', error);
+      return new Response('Internal Server Error', { status: 500 });
+    }
+  }
+
+  /**
+   * Handle an operator's request to hand the live call to a pharmacist
+   */
+  private async handleTransfer(request: Request): Promise<Response> {
+    if (request.method !== 'POST') {
+      return new Response('Method Not Allowed', { status: 405 });
+    }
+
+    try {
+      const data = await request.json() as { reason?: string; requestedBy: string };
+      const result = await this.startWarmTransfer(data.reason || 'Operator took over the call', data.requestedBy);
+      return this.jsonResponse(result, result.success ? 200 : 409);
+    } catch (error) {
+      console.error('Error transferring call:', error);
+      return new Response('Internal Server Error', { status: 500 });
+    }
+  }
+
+  /**
+   * Handle the pharmacist's <Dial> progressing - record the outcome on the transfer
+   * and return the call metadata needed to reconnect the caller to the assistant
+   */
+  private async handleTransferOutcome(request: Request): Promise<Response> {
+    if (request.method !== 'POST') {
+      return new Response('Method Not Allowed', { status: 405 });
+    }
+
+    try {
+      const data = await request.json() as { status: CallTransferStatus };
+      if (!TRANSFER_OUTCOMES.includes(data.status)) {
+        return this.jsonResponse({ error: 'Invalid transfer status' }, 400);
+      }
+      if (!this.session.transfer) {
+        return this.jsonResponse({ error: 'No transfer for this call' }, 409);
+      }
+
+      this.session.transfer = { ...this.session.transfer, status: data.status };
+      await this.saveSession();
+      console.log('Transfer status updated:', { session: this.session.objectName, status: data.status });
+
+      await this.broadcastToSharedLogsSession({
+        type: 'call_transfer',
+        callSid: this.getObjectCallSid(),
+        status: data.status,
+        timestamp: Date.now()
+      });
+      return this.jsonResponse({ callMetadata: this.session.callMetadata || {} });
+    } catch (error) {
+      console.error('Error updating transfer status:', error);
+      return new Response('Internal Server Error', { status: 500 });
+    }
+  }
+
+  /**
+   * Handle Twilio reporting the call has ended - run the end-of-call pipeline
+   */
+  private async handleCallEnded(request: Request): Promise<Response> {
+    if (request.method !== 'POST') {
+      return new Response('Method Not Allowed', { status: 405 });
+    }
+
+    try {
+      const data = await request.json() as { timestamp?: number };
+      await this.finishCall(data.timestamp || Date.now());
+      return new Response('OK', { status: 200 });
+    } catch (error) {
+      console.error('Error finishing call:', error);
+      return new Response('Internal Server Error', { status: 500 });
+    }
+  }
+
+  /**
+   * Handle an operator claiming a call the AI already answered: record the claim
+   * and mute the assistant so the operator talks to the caller from the dashboard
+   */
+  private async handleOperatorTakeover(request: Request): Promise<Response> {
+    if (request.method !== 'POST') {
+      return new Response('Method Not Allowed', { status: 405 });
+    }
+
+    try {
+      const data = await request.json() as { operatorId: string; operatorName?: string };
+      if (!this.session.twilioConnId || !this.session.streamSid) {
+        return this.jsonResponse({ success: false, message: 'Call is not connected' }, 409);
+      }
+
+      this.session.callMetadata = {
+        ...this.session.callMetadata,
+        claimedBy: data.operatorId,
+        claimedByName: data.operatorName
+      };
+      this.session.operatorTakeoverAt = Date.now();
+      this.pauseModel();
+      if (this.holdMusicService.isHoldMusicPlaying()) {
+        await this.holdMusicService.stopHoldMusic();
+      }
+      await this.saveSession();
+      console.log('Operator took over call:', { callSid: this.session.callSid, operatorId: data.operatorId });
+
+      // Same shape as the stream start, so tabs and the active call list pick up the claim
+      await this.broadcastToSharedLogsSession({
+        type: 'call_started',
+        callSid: this.session.callSid,
+        routingReason: this.session.callMetadata.routingReason,
+        claimedBy: data.operatorId,
+        claimedByName: data.operatorName,
+        startedAt: this.session.callStartedAt || Date.now()
+      });
+
+      return this.jsonResponse({ success: true });
+    } catch (error) {
+      console.error('Error handing call to operator:', error);
+      return this.jsonResponse({ success: false, message: 'Internal Server Error' }, 500);
+    }
+  }
+
+  /**
+   * Handle a call control forwarded from a dashboard socket on the shared logs object
+   */
+  private async handleControl(request: Request): Promise<Response> {
+    if (request.method !== 'POST') {
+      return new Response('Method Not Allowed', { status: 405 });
+    }
+
+    try {
+      const data = await request.json() as { message: ControlMessage; operatorId?: string };
+      if (!CONTROL_MESSAGE_TYPES.includes(data.message?.type)) {
+        return this.jsonResponse({ success: false, message: 'Unsupported control' }, 400);
+      }
+      if (!this.holdsClaim(data.operatorId)) {
+        console.log('Rejected call control from an operator who has not claimed the call:', {
+          callSid: this.session.callSid,
+          action: data.message.type,
+          operatorId: data.operatorId
+        });
+        return this.jsonResponse({ success: false, message: 'Only the operator who claimed this call can control it' }, 403);
+      }
+
+      const result = await this.runControlMessage(data.message);
+      console.log('Ran forwarded call control:', {
+        callSid: this.session.callSid,
+        action: data.message.type,
+        operatorId: data.operatorId,
+        success: result.success
+      });
+      return this.jsonResponse(result, result.success ? 200 : 409);
+    } catch (error) {
+      console.error('Error running call control:', error);
+      return this.jsonResponse({ success: false, message: 'Internal Server Error' }, 500);
+    }
+  }
+
+  /**
+   * Handle verifying last 4 digits, with per-call and per-operator lockouts
    */
   private async handleVerifyDigits(request: Request): Promise<Response> {
     if (request.method !== 'POST') {
@@ -916,17 +2200,35 @@ export class SessionManager implements DurableObject {
     }
 
     try {
-      const data = await request.json() as { lastFourDigits: string };
+      const data = await request.json() as { lastFourDigits: string; operatorId: string };
+      const now = Date.now();
+
+      this.session.verificationLocks ??= {
+        call: { failedCount: 0, lockouts: 0 },
+        operators: {}
+      };
+      const locks = this.session.verificationLocks;
+      const operatorLock = locks.operators[data.operatorId] ??= { failedCount: 0, lockouts: 0 };
+
+      // Nothing to claim once the caller has hung up
+      if (this.session.abandonedAt) {
+        return this.jsonResponse({ valid: false, abandoned: true });
+      }
+
+      // Refuse to check digits at all while either lockout is active
+      const activeLock = this.getActiveLock(locks.call, operatorLock, now);
+      if (activeLock) {
+        return this.jsonResponse({
+          valid: false,
+          locked: true,
+          lockedScope: activeLock.scope,
+          lockedUntil: activeLock.lockedUntil
+        });
+      }
       
       if (!this.session.callerNumber) {
         console.log('No caller number stored for verification');
-        return new Response(
-          JSON.stringify({ valid: false }),
-          { 
-            headers: { 'Content-Type': 'application/json' },
-            status: 200 
-          }
-        );
+        return this.jsonResponse({ valid: false });
       }
 
       // Extract last 4 digits from stored caller number
@@ -936,21 +2238,345 @@ export class SessionManager implements DurableObject {
       const isValid = actualLastFour === data.lastFourDigits;
       
       console.log('Verified last four digits:', {
-        callSid: this.session.callSid,
-        inputDigits: data.lastFourDigits,
+        session: this.session.objectName,
+        operatorId: data.operatorId,
         valid: isValid
       });
 
-      return new Response(
-        JSON.stringify({ valid: isValid }),
-        { 
-          headers: { 'Content-Type': 'application/json' },
-          status: 200 
-        }
-      );
+      if (isValid) {
+        operatorLock.failedCount = 0;
+        await this.saveSession();
+        return this.jsonResponse({ valid: true, autoAnswered: !!this.session.autoAnsweredAt });
+      }
+
+      // Count the failure against both the call and the operator
+      operatorLock.failedCount++;
+      locks.call.failedCount++;
+
+      let lockedScope: 'call' | 'operator' | undefined;
+      if (locks.call.failedCount >= VERIFICATION_POLICY.maxAttemptsPerCall) {
+        this.applyLockout(locks.call, now);
+        lockedScope = 'call';
+      }
+      if (operatorLock.failedCount >= VERIFICATION_POLICY.maxAttemptsPerOperator) {
+        this.applyLockout(operatorLock, now);
+        lockedScope ??= 'operator';
+      }
+
+      // Audit every failed attempt
+      this.session.verificationAudit ??= [];
+      this.session.verificationAudit.push({ operatorId: data.operatorId, timestamp: now, lockedScope });
+      console.warn('Failed call verification attempt:', {
+        event: 'call_verification_failed',
+        session: this.session.objectName,
+        operatorId: data.operatorId,
+        callFailures: locks.call.failedCount,
+        operatorFailures: operatorLock.failedCount,
+        lockedScope,
+        timestamp: now
+      });
+
+      await this.saveSession();
+
+      const result: DigitVerificationResult = lockedScope
+        ? {
+            valid: false,
+            locked: true,
+            newlyLocked: true,
+            lockedScope,
+            lockedUntil: lockedScope === 'call' ? locks.call.lockedUntil : operatorLock.lockedUntil
+          }
+        : {
+            valid: false,
+            attemptsRemaining: Math.min(
+              VERIFICATION_POLICY.maxAttemptsPerOperator - operatorLock.failedCount,
+              VERIFICATION_POLICY.maxAttemptsPerCall - locks.call.failedCount
+            )
+          };
+
+      return this.jsonResponse(result);
     } catch (error) {
       console.error('Error verifying last four digits:', error);
       return new Response('Internal Server Error', { status: 500 });
     }
   }
-} 
\ No newline at end of file
+
+  /**
+   * Current queue in arrival order with hold positions
+   */
+  private getQueueEntries(): QueueEntry[] {
+    return (this.session.queue || []).map((call, index) => ({
+      ...call,
+      holdPosition: index + 1
+    }));
+  }
+
+  /**
+   * Push the current queue to every subscribed dashboard
+   */
+  private broadcastQueue(): void {
+    const entries = this.getQueueEntries();
+    for (const ws of this.ctx.getWebSockets('queue')) {
+      this.sendToWebSocket(ws, { type: 'queue.updated', entries });
+    }
+  }
+
+  /**
+   * Handle adding a ringing call to the queue (idempotent per CallSid)
+   */
+  private async handleQueueEnqueue(request: Request): Promise<Response> {
+    if (request.method !== 'POST') {
+      return new Response('Method Not Allowed', { status: 405 });
+    }
+
+    try {
+      const data = await request.json() as { callSid: string; partialNumber: string; timestamp: number };
+      this.session.queue ??= [];
+
+      // Twilio re-requests /incoming-call on every hold loop, so keep the original entry
+      const existing = this.session.queue.find((call) => call.callSid === data.callSid);
+      if (!existing) {
+        this.session.queue.push({
+          callSid: data.callSid,
+          partialNumber: data.partialNumber,
+          enqueuedAt: data.timestamp
+        });
+        await this.saveSession();
+        this.broadcastQueue();
+        console.log('Enqueued call:', { callSid: data.callSid, queueLength: this.session.queue.length });
+      }
+
+      const entry = this.getQueueEntries().find((call) => call.callSid === data.callSid);
+      return this.jsonResponse({ added: !existing, entry });
+    } catch (error) {
+      console.error('Error enqueuing call:', error);
+      return new Response('Internal Server Error', { status: 500 });
+    }
+  }
+
+  /**
+   * Handle removing a call from the queue once it is claimed or abandoned
+   */
+  private async handleQueueRemove(request: Request): Promise<Response> {
+    if (request.method !== 'POST') {
+      return new Response('Method Not Allowed', { status: 405 });
+    }
+
+    try {
+      const data = await request.json() as { callSid: string; reason: QueueRemovalReason };
+      const queue = this.session.queue || [];
+      const remaining = queue.filter((call) => call.callSid !== data.callSid);
+      const removed = remaining.length !== queue.length;
+
+      if (removed) {
+        this.session.queue = remaining;
+        await this.saveSession();
+        this.broadcastQueue();
+        console.log('Removed call from queue:', { callSid: data.callSid, reason: data.reason });
+      }
+
+      return this.jsonResponse({ removed });
+    } catch (error) {
+      console.error('Error removing call from queue:', error);
+      return new Response('Internal Server Error', { status: 500 });
+    }
+  }
+
+  /**
+   * Handle changing how inbound calls to a phone number are routed
+   */
+  private async handleRoutingSet(request: Request): Promise<Response> {
+    if (request.method !== 'POST') {
+      return new Response('Method Not Allowed', { status: 405 });
+    }
+
+    try {
+      const data = await request.json() as { phoneNumber: string; mode: RoutingMode; operatorId?: string };
+      if (!data.phoneNumber || !ROUTING_MODES.includes(data.mode)) {
+        return new Response('Invalid routing', { status: 400 });
+      }
+
+      this.session.routing ??= {};
+      this.session.routing[data.phoneNumber] = {
+        mode: data.mode,
+        updatedAt: Date.now(),
+        updatedBy: data.operatorId
+      };
+      await this.saveSession();
+
+      console.log('Updated number routing:', { phoneNumber: data.phoneNumber, mode: data.mode, operatorId: data.operatorId });
+      return this.jsonResponse(this.session.routing[data.phoneNumber]);
+    } catch (error) {
+      console.error('Error updating number routing:', error);
+      return new Response('Internal Server Error', { status: 500 });
+    }
+  }
+
+  /**
+   * Handle replacing the business-hours schedule
+   */
+  private async handleScheduleSet(request: Request): Promise<Response> {
+    if (request.method !== 'POST') {
+      return new Response('Method Not Allowed', { status: 405 });
+    }
+
+    try {
+      const data = await request.json() as BusinessSchedule;
+      const error = validateBusinessSchedule(data);
+      if (error) {
+        return this.jsonResponse({ error }, 400);
+      }
+
+      this.session.schedule = {
+        timezone: data.timezone,
+        weeklyHours: data.weeklyHours || {},
+        holidays: data.holidays,
+        openFlow: data.openFlow,
+        closedFlow: data.closedFlow,
+        closedMessage: data.closedMessage
+      };
+      await this.saveSession();
+
+      console.log('Updated business schedule:', { timezone: data.timezone, holidays: data.holidays.length });
+      return this.jsonResponse(this.session.schedule);
+    } catch (error) {
+      console.error('Error updating business schedule:', error);
+      return new Response('Internal Server Error', { status: 500 });
+    }
+  }
+
+  /**
+   * Handle replacing the greeting and hold flow for a phone number
+   */
+  private async handleFlowSet(request: Request): Promise<Response> {
+    if (request.method !== 'POST') {
+      return new Response('Method Not Allowed', { status: 405 });
+    }
+
+    try {
+      const data = await request.json() as { phoneNumber: string; flow: CallFlowDefinition; operatorId?: string };
+      const error = data.phoneNumber ? validateCallFlow(data.flow) : 'phoneNumber is required';
+      if (error) {
+        return this.jsonResponse({ error }, 400);
+      }
+
+      this.session.flows ??= {};
+      this.session.flows[data.phoneNumber] = {
+        greeting: data.flow.greeting,
+        voice: data.flow.voice || undefined,
+        language: data.flow.language || undefined,
+        holdMessage: data.flow.holdMessage,
+        holdTrack: data.flow.holdTrack,
+        holdLoops: data.flow.holdLoops,
+        retryMessage: data.flow.retryMessage
+      };
+      await this.saveSession();
+
+      console.log('Updated call flow:', { phoneNumber: data.phoneNumber, operatorId: data.operatorId });
+      return this.jsonResponse(this.session.flows[data.phoneNumber]);
+    } catch (error) {
+      console.error('Error updating call flow:', error);
+      return new Response('Internal Server Error', { status: 500 });
+    }
+  }
+
+  /**
+   * Handle saving the assistant settings for a profile ('default' or a phone number)
+   */
+  private async handleSessionConfigSet(request: Request): Promise<Response> {
+    if (request.method !== 'POST') {
+      return new Response('Method Not Allowed', { status: 405 });
+    }
+
+    try {
+      const data = await request.json() as { profile: string; config: AssistantSessionConfig; operatorId?: string };
+      const error = isValidProfileName(data.profile)
+        ? validateSessionConfig(data.config)
+        : "profile must be 'default' or an E.164 phone number";
+      if (error) {
+        return this.jsonResponse({ error }, 400);
+      }
+
+      this.session.sessionProfiles ??= {};
+      this.session.sessionProfiles[data.profile] = {
+        ...pickSessionConfig(data.config),
+        updatedAt: Date.now(),
+        updatedBy: data.operatorId
+      };
+      await this.saveSession();
+
+      console.log('Updated session config profile:', { profile: data.profile, operatorId: data.operatorId });
+      return this.jsonResponse(this.session.sessionProfiles[data.profile]);
+    } catch (error) {
+      console.error('Error updating session config profile:', error);
+      return new Response('Internal Server Error', { status: 500 });
+    }
+  }
+
+  /**
+   * Handle settings pushed from the dashboard to this in-progress call
+   */
+  private async handleLiveSessionConfig(request: Request): Promise<Response> {
+    if (request.method !== 'POST') {
+      return new Response('Method Not Allowed', { status: 405 });
+    }
+
+    try {
+      const data = await request.json() as { config: AssistantSessionConfig; operatorId?: string };
+      if (!this.holdsClaim(data.operatorId)) {
+        return this.jsonResponse({ error: 'Only the operator who claimed this call can change its settings' }, 403);
+      }
+      const error = validateSessionConfig(data.config);
+      if (error) {
+        return this.jsonResponse({ error }, 400);
+      }
+
+      const applied = await this.applyCallSessionConfig(data.config);
+      console.log('Pushed session config to call:', { callSid: this.session.callSid, operatorId: data.operatorId, applied });
+      return this.jsonResponse({ applied });
+    } catch (error) {
+      console.error('Error pushing session config to call:', error);
+      return new Response('Internal Server Error', { status: 500 });
+    }
+  }
+
+  /**
+   * Return whichever lockout (call-wide first) is still in force
+   */
+  private getActiveLock(
+    callLock: VerificationLockState,
+    operatorLock: VerificationLockState,
+    now: number
+  ): { scope: 'call' | 'operator'; lockedUntil: number } | null {
+    if (callLock.lockedUntil && callLock.lockedUntil > now) {
+      return { scope: 'call', lockedUntil: callLock.lockedUntil };
+    }
+    if (operatorLock.lockedUntil && operatorLock.lockedUntil > now) {
+      return { scope: 'operator', lockedUntil: operatorLock.lockedUntil };
+    }
+    return null;
+  }
+
+  /**
+   * Start a lockout, doubling its length each time it is triggered
+   */
+  private applyLockout(lock: VerificationLockState, now: number): void {
+    const duration = Math.min(
+      VERIFICATION_POLICY.baseLockoutMs * 2 ** lock.lockouts,
+      VERIFICATION_POLICY.maxLockoutMs
+    );
+    lock.lockouts++;
+    lock.failedCount = 0;
+    lock.lockedUntil = now + duration;
+  }
+
+  private jsonResponse(body: unknown, status = 200): Response {
+    return new Response(
+      JSON.stringify(body),
+      { 
+        headers: { 'Content-Type': 'application/json' },
+        status
+      }
+    );
+  }
+}
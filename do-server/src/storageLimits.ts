@@ -0,0 +1,15 @@
+// Size limits for what a call keeps in Durable Object storage
+
+// Storage caps a single value at 128 KiB. Transcripts and function calls are
+// stored under their own keys, each kept under this budget with room to spare.
+export const MAX_STORED_VALUE_BYTES = 112 * 1024;
+
+const encoder = new TextEncoder();
+
+/**
+ * UTF-8 size of a value's JSON. Storage keeps strings as Latin-1 or UTF-16, so
+ * this is at or above what the value takes there for any text a call produces.
+ */
+export function serializedBytes(value: unknown): number {
+  return encoder.encode(JSON.stringify(value)).length;
+}
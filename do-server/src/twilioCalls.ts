@@ -0,0 +1,35 @@
+// Twilio Call Control API helpers shared by the worker and the SessionManager
+import { WorkerEnv } from './types';
+
+/**
+ * Replace the TwiML a live call is executing. Returns false if Twilio refused or
+ * credentials are missing, so callers can fall back.
+ */
+export async function updateLiveCall(env: WorkerEnv, callSid: string, twiml: string): Promise<boolean> {
+  if (!env.TWILIO_ACCOUNT_SID || !env.TWILIO_AUTH_TOKEN) {
+    console.error('Twilio credentials not configured');
+    return false;
+  }
+
+  const auth = btoa(`${env.TWILIO_ACCOUNT_SID}:${env.TWILIO_AUTH_TOKEN}`);
+  const formData = new URLSearchParams();
+  formData.append('Twiml', twiml);
+
+  const response = await fetch(
+    `https://api.twilio.com/2010-04-01/Accounts/${env.TWILIO_ACCOUNT_SID}/Calls/${callSid}.json`,
+    {
+      method: 'POST',
+      headers: {
+        'Authorization': `Basic ${auth}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: formData,
+    }
+  );
+
+  if (!response.ok) {
+    console.error('Twilio Call Control API error:', response.status, await response.text());
+    return false;
+  }
+  return true;
+}
@@ -0,0 +1,86 @@
+// Twilio webhook signature validation (X-Twilio-Signature) using WebCrypto
+import { bytesToBase64, hmac, timingSafeEqual } from './cryptoUtils';
+
+export const TWILIO_SIGNATURE_HEADER = 'X-Twilio-Signature';
+
+export interface SignatureCheckResult {
+  valid: boolean;
+  reason?: string;
+}
+
+/**
+ * Compute the expected X-Twilio-Signature for a webhook request.
+ *
+ * Twilio signs the full request URL followed by every POST parameter, sorted
+ * by name, with each name and value concatenated without separators. The
+ * result is HMAC-SHA1 keyed with the account auth token, base64 encoded.
+ */
+export async function computeTwilioSignature(
+  authToken: string,
+  url: string,
+  params: Array<[string, string]>
+): Promise<string> {
+  const sortedParams = [...params].sort(([keyA, valueA], [keyB, valueB]) => {
+    if (keyA !== keyB) return keyA < keyB ? -1 : 1;
+    return valueA < valueB ? -1 : valueA > valueB ? 1 : 0;
+  });
+
+  const data = sortedParams.reduce((acc, [key, value]) => acc + key + value, url);
+
+  const signature = await hmac('SHA-1', authToken, data);
+  return bytesToBase64(signature);
+}
+
+/**
+ * Rebuild the URL Twilio signed from PUBLIC_URL and the path the worker received.
+ * A path prefix on PUBLIC_URL (a worker mounted under a sub-path) is kept, and
+ * not added twice when the route already passes it through.
+ */
+export function buildSignedUrl(requestUrl: string, publicUrl: string): string {
+  const { pathname, search } = new URL(requestUrl);
+  const base = new URL(publicUrl);
+  const prefix = base.pathname.replace(/\/+$/, '');
+
+  const path = prefix && pathname !== prefix && !pathname.startsWith(`${prefix}/`)
+    ? prefix + pathname
+    : pathname;
+  return `${base.origin}${path}${search}`;
+}
+
+/**
+ * Validate a Twilio webhook request against the auth token.
+ *
+ * The signed URL is rebuilt from PUBLIC_URL so validation still works when the
+ * worker sees a different host (e.g. behind a tunnel in local development).
+ */
+export async function validateTwilioRequest(
+  request: Request,
+  authToken: string | undefined,
+  publicUrl: string
+): Promise<SignatureCheckResult> {
+  if (!authToken) {
+    return { valid: false, reason: 'TWILIO_AUTH_TOKEN not configured' };
+  }
+
+  const signature = request.headers.get(TWILIO_SIGNATURE_HEADER);
+  if (!signature) {
+    return { valid: false, reason: 'Missing signature header' };
+  }
+
+  const signedUrl = buildSignedUrl(request.url, publicUrl);
+
+  let params: Array<[string, string]> = [];
+  const contentType = request.headers.get('Content-Type') || '';
+  if (request.method === 'POST' && contentType.includes('application/x-www-form-urlencoded')) {
+    // Clone so the handler can still read the form body
+    const formData = await request.clone().formData();
+    params = Array.from(formData.entries()).map(([key, value]) => [key, String(value)]);
+  }
+
+  const expected = await computeTwilioSignature(authToken, signedUrl, params);
+  if (!timingSafeEqual(expected, signature)) {
+    return { valid: false, reason: 'Signature mismatch' };
+  }
+
+  return { valid: true };
+}
@@ -0,0 +1,222 @@
+// Typed TwiML builder - every attribute and text node is XML-escaped, and the
+// verb list is checked before rendering so malformed TwiML never reaches Twilio.
+// The do-server and websocket-server copies must stay identical - the do-server
+// tests fail if they drift - so stick to ES6 built-ins.
+
+export interface TwimlStream {
+  url: string;                          // Must be a wss:// URL
+  name?: string;
+  parameters?: Record<string, string>;  // Sent to the stream as <Parameter> elements
+}
+
+// Verbs Twilio allows nested inside <Gather>
+export type TwimlGatherChild =
+  | { verb: 'Say'; text: string; voice?: string; language?: string; loop?: number }
+  | { verb: 'Play'; url: string; loop?: number }
+  | { verb: 'Pause'; length?: number };
+
+export type TwimlVerb =
+  | TwimlGatherChild
+  | { verb: 'Redirect'; url: string; method?: 'GET' | 'POST' }
+  | { verb: 'Record'; maxLength?: number; playBeep?: boolean; action?: string }
+  | {
+      verb: 'Dial';
+      number: string;
+      callerId?: string;
+      timeout?: number;
+      action?: string;
+      answeredCallback?: string;  // Twilio posts here when the dialled number picks up
+    }
+  | { verb: 'Connect'; stream: TwimlStream }
+  | {
+      verb: 'Gather';
+      input?: 'dtmf' | 'speech' | 'dtmf speech';
+      action?: string;
+      method?: 'GET' | 'POST';
+      numDigits?: number;
+      timeout?: number;
+      children?: TwimlGatherChild[];
+    }
+  | { verb: 'Hangup' };
+
+type AttributeValue = string | number | boolean | undefined;
+
+const GATHER_CHILD_VERBS = ['Say', 'Play', 'Pause'];
+// Twilio stops processing the document after these
+const TERMINAL_VERBS = ['Redirect', 'Hangup'];
+
+/**
+ * Escape text for use inside TwiML elements and attributes
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function requireText(value: string | undefined, what: string): void {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`Invalid TwiML: ${what} is required`);
+  }
+}
+
+function requireCount(value: number | undefined, what: string): void {
+  if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+    throw new Error(`Invalid TwiML: ${what} must be a non-negative integer`);
+  }
+}
+
+function validateVerb(verb: TwimlVerb): void {
+  switch (verb.verb) {
+    case 'Say':
+      requireText(verb.text, 'Say text');
+      requireCount(verb.loop, 'Say loop');
+      break;
+    case 'Play':
+      requireText(verb.url, 'Play url');
+      requireCount(verb.loop, 'Play loop');
+      break;
+    case 'Pause':
+      requireCount(verb.length, 'Pause length');
+      break;
+    case 'Redirect':
+      requireText(verb.url, 'Redirect url');
+      break;
+    case 'Record':
+      requireCount(verb.maxLength, 'Record maxLength');
+      break;
+    case 'Dial':
+      requireText(verb.number, 'Dial number');
+      requireCount(verb.timeout, 'Dial timeout');
+      break;
+    case 'Connect': {
+      requireText(verb.stream?.url, 'Stream url');
+      if (!verb.stream.url.startsWith('wss://')) {
+        throw new Error('Invalid TwiML: Stream url must use wss://');
+      }
+      for (const name of Object.keys(verb.stream.parameters || {})) {
+        requireText(name, 'Stream parameter name');
+      }
+      break;
+    }
+    case 'Gather':
+      requireCount(verb.numDigits, 'Gather numDigits');
+      requireCount(verb.timeout, 'Gather timeout');
+      for (const child of verb.children || []) {
+        if (GATHER_CHILD_VERBS.indexOf(child.verb) === -1) {
+          throw new Error(`Invalid TwiML: ${child.verb} cannot be nested in Gather`);
+        }
+        validateVerb(child);
+      }
+      break;
+    case 'Hangup':
+      break;
+    default:
+      throw new Error(`Invalid TwiML: unknown verb ${(verb as { verb: string }).verb}`);
+  }
+}
+
+/**
+ * Check a verb list is well formed: known verbs, required values present,
+ * and nothing after a verb that ends the document
+ */
+export function validateTwiml(verbs: TwimlVerb[]): void {
+  if (verbs.length === 0) {
+    throw new Error('Invalid TwiML: a response needs at least one verb');
+  }
+
+  verbs.forEach((verb, index) => {
+    validateVerb(verb);
+    if (TERMINAL_VERBS.indexOf(verb.verb) !== -1 && index < verbs.length - 1) {
+      throw new Error(`Invalid TwiML: ${verb.verb} must be the last verb`);
+    }
+  });
+}
+
+function renderElement(name: string, attributes: Record<string, AttributeValue>, content?: string): string {
+  const renderedAttributes = Object.keys(attributes)
+    .filter((key) => attributes[key] !== undefined)
+    .map((key) => ` ${key}="${escapeXml(String(attributes[key]))}"`)
+    .join('');
+
+  return content === undefined
+    ? `<${name}${renderedAttributes} />`
+    : `<${name}${renderedAttributes}>${content}</${name}>`;
+}
+
+// Nested elements go on their own lines, indented one level deeper
+function renderChildren(children: string[], indent: string): string | undefined {
+  if (children.length === 0) {
+    return undefined;
+  }
+  return `\n${children.map((child) => `${indent}  ${child}`).join('\n')}\n${indent}`;
+}
+
+function renderVerb(verb: TwimlVerb, indent: string): string {
+  switch (verb.verb) {
+    case 'Say':
+      return renderElement('Say', { voice: verb.voice, language: verb.language, loop: verb.loop }, escapeXml(verb.text));
+    case 'Play':
+      return renderElement('Play', { loop: verb.loop }, escapeXml(verb.url));
+    case 'Pause':
+      return renderElement('Pause', { length: verb.length });
+    case 'Redirect':
+      return renderElement('Redirect', { method: verb.method }, escapeXml(verb.url));
+    case 'Record':
+      return renderElement('Record', { action: verb.action, maxLength: verb.maxLength, playBeep: verb.playBeep });
+    case 'Dial': {
+      const attributes = { action: verb.action, callerId: verb.callerId, timeout: verb.timeout };
+      if (!verb.answeredCallback) {
+        return renderElement('Dial', attributes, escapeXml(verb.number));
+      }
+      // Status callbacks are set on a <Number> noun rather than on <Dial> itself
+      const number = renderElement(
+        'Number',
+        { statusCallback: verb.answeredCallback, statusCallbackEvent: 'answered' },
+        escapeXml(verb.number)
+      );
+      return renderElement('Dial', attributes, renderChildren([number], indent));
+    }
+    case 'Connect': {
+      const streamIndent = `${indent}  `;
+      const streamParameters = verb.stream.parameters || {};
+      const parameters = Object.keys(streamParameters).map((name) =>
+        renderElement('Parameter', { name, value: streamParameters[name] })
+      );
+      const stream = renderElement(
+        'Stream',
+        { url: verb.stream.url, name: verb.stream.name },
+        renderChildren(parameters, streamIndent)
+      );
+      return renderElement('Connect', {}, renderChildren([stream], indent));
+    }
+    case 'Gather': {
+      const children = (verb.children || []).map((child) => renderVerb(child, `${indent}  `));
+      return renderElement(
+        'Gather',
+        {
+          input: verb.input,
+          action: verb.action,
+          method: verb.method,
+          numDigits: verb.numDigits,
+          timeout: verb.timeout,
+        },
+        renderChildren(children, indent)
+      );
+    }
+    case 'Hangup':
+      return renderElement('Hangup', {});
+  }
+}
+
+/**
+ * Validate and render a TwiML <Response> document from a list of verbs
+ */
+export function buildTwiml(verbs: TwimlVerb[]): string {
+  validateTwiml(verbs);
+  const body = verbs.map((verb) => `  ${renderVerb(verb, '  ')}`).join('\n');
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<Response>\n${body}\n</Response>`;
+}
@@ -0,0 +1,108 @@
+// The TwiML documents the worker answers Twilio with, one builder per response
+import { CallFlowDefinition, CallMetadata } from './types';
+import { buildTwiml } from './twiml';
+import { toStreamParameters } from './callMetadata';
+import { buildPublicUrl } from './publicUrl';
+
+export const DEFAULT_CLOSED_MESSAGE = 'Thank you for calling. We are currently closed. Please leave a message after the tone and we will call you back.';
+export const OVERFLOW_VOICEMAIL_MESSAGE = 'Sorry, all of our agents are busy. Please leave a message after the tone and we will call you back.';
+const OVERFLOW_FORWARD_MESSAGE = 'All of our agents are busy. Transferring your call now.';
+const VOICEMAIL_MAX_LENGTH_SECONDS = 120;
+
+// Warm handoff to a human pharmacist
+const TRANSFER_MESSAGE = 'Please hold while I connect you to a pharmacist.';
+const TRANSFER_DIAL_TIMEOUT_SECONDS = 30;
+
+type SayOptions = Pick<CallFlowDefinition, 'voice' | 'language'>;
+
+/**
+ * Greet the caller in the number's voice, then hand over to /incoming-call
+ */
+export function buildGreetingTwiml(publicUrl: string, flow: CallFlowDefinition): string {
+  const callbackUrl = buildPublicUrl(publicUrl, '/incoming-call');
+
+  return buildTwiml([
+    { verb: 'Say', text: flow.greeting, voice: flow.voice, language: flow.language },
+    { verb: 'Redirect', url: callbackUrl.toString() },
+  ]);
+}
+
+/**
+ * One pass of the hold loop while the caller waits in the operator queue
+ */
+export function buildHoldTwiml(publicUrl: string, flow: CallFlowDefinition): string {
+  const holdMusicUrl = buildPublicUrl(publicUrl, '/hold-music/stream');
+  holdMusicUrl.searchParams.set('track', flow.holdTrack);
+  // Force HTTPS for Twilio compatibility
+  holdMusicUrl.protocol = 'https:';
+
+  return buildTwiml([
+    { verb: 'Say', text: flow.holdMessage, voice: flow.voice, language: flow.language },
+    { verb: 'Play', url: holdMusicUrl.toString(), loop: flow.holdLoops },
+    { verb: 'Say', text: flow.retryMessage, voice: flow.voice, language: flow.language },
+    { verb: 'Redirect', url: buildPublicUrl(publicUrl, '/incoming-call').toString() },
+  ]);
+}
+
+/**
+ * Play a message and record a voicemail, in the number's voice
+ */
+export function buildVoicemailTwiml(message: string, flow: SayOptions = {}): string {
+  const { voice, language } = flow;
+  return buildTwiml([
+    { verb: 'Say', text: message, voice, language },
+    { verb: 'Record', maxLength: VOICEMAIL_MAX_LENGTH_SECONDS, playBeep: true },
+    { verb: 'Say', text: 'Thank you. Goodbye.', voice, language },
+    { verb: 'Hangup' },
+  ]);
+}
+
+/**
+ * Send an overflowing call on to a fallback number
+ */
+export function buildForwardTwiml(forwardNumber: string): string {
+  return buildTwiml([
+    { verb: 'Say', text: OVERFLOW_FORWARD_MESSAGE },
+    { verb: 'Dial', number: forwardNumber },
+  ]);
+}
+
+/**
+ * Connect a call's media stream to its session WebSocket, with the call
+ * metadata passed along as stream parameters
+ */
+export function buildStreamTwiml(publicUrl: string, callSid: string, metadata: CallMetadata): string {
+  // Generate WebSocket URL for this specific call using path-based routing
+  const wsUrl = buildPublicUrl(publicUrl, `/call/${callSid}`);
+  wsUrl.protocol = 'wss:';
+
+  return buildTwiml([
+    { verb: 'Connect', stream: { url: wsUrl.toString(), parameters: toStreamParameters(metadata) } },
+    { verb: 'Say', text: 'Call ended' },
+  ]);
+}
+
+/**
+ * Dial the pharmacist for a warm handoff. /transfer-status hears when they pick
+ * up, and again with the outcome once the dial ends.
+ */
+export function buildTransferTwiml(publicUrl: string, pharmacistNumber: string): string {
+  const statusUrl = buildPublicUrl(publicUrl, '/transfer-status').toString();
+  return buildTwiml([
+    { verb: 'Say', text: TRANSFER_MESSAGE },
+    {
+      verb: 'Dial',
+      number: pharmacistNumber,
+      timeout: TRANSFER_DIAL_TIMEOUT_SECONDS,
+      action: statusUrl,
+      answeredCallback: statusUrl,
+    },
+  ]);
+}
+
+/**
+ * End the call once the pharmacist has hung up
+ */
+export function buildHangupTwiml(): string {
+  return buildTwiml([{ verb: 'Hangup' }]);
+}
@@ -2,7 +2,7 @@ export interface Session {
   twilioConnId?: string;
   frontendConnId?: string;
   modelConnId?: string;
-  config?: any;
+  config?: AssistantSessionConfig; // Per-call settings pushed from the dashboard (call objects only)
   streamSid?: string;
   callSid?: string;
   lastAssistantItem?: string;
@@ -12,10 +12,37 @@ export interface Session {
   createdAt?: number;        // Timestamp when session was created
   lastActivity?: number;     // Timestamp of last activity for auto-cleanup
   sessionId?: string;        // The unique session identifier used for routing
-  assignedTo?: string;       // Session ID that claimed this call
+  objectName?: string;       // Name this Durable Object was addressed by (e.g. call-CA..., logs-shared)
+  assignedTo?: string;       // Operator ID that claimed this call
+  assignedToName?: string;   // Display name of the operator that claimed this call
   assignedAt?: number;       // Timestamp when call was assigned
   callerNumber?: string;     // Full phone number of the caller
   callerTimestamp?: number;  // Timestamp when caller number was stored
+  callerLocale?: string;     // Locale of the number the caller dialled, e.g. en-US
+  calledNumber?: string;     // Number the caller dialled (caller-* objects)
+  callMetadata?: CallMetadata; // Details passed in by the <Stream> custom parameters
+  abandonedAt?: number;      // Timestamp the caller hung up while waiting
+  autoAnsweredAt?: number;   // Timestamp the AI answered the call without an operator claim
+  transcript?: TranscriptEntry[]; // Finished caller and assistant turns, most recent last
+  transcriptTruncated?: boolean; // The oldest transcript entries were dropped to stay under the size cap
+  functionCalls?: FunctionCallRecord[]; // Functions the assistant called, for the call history
+  callStartedAt?: number;    // Timestamp the first media stream for the call started
+  callEndedAt?: number;      // Timestamp the end-of-call pipeline ran, so it only runs once
+  streamClosedAt?: number;   // Timestamp the Twilio stream closed with no transfer pending
+  transfer?: CallTransfer;   // Warm handoff to a pharmacist, once one has been requested
+  operatorTakeoverAt?: number; // Timestamp an operator claimed a call the AI had answered (model muted from then on)
+  bargeInConnId?: string;    // Dashboard socket currently talking to the caller (model muted meanwhile)
+  verificationLocks?: {
+    call: VerificationLockState;
+    operators: Record<string, VerificationLockState>;
+  };                         // Failed last-four-digit attempt counters
+  verificationAudit?: VerificationAuditEntry[]; // Every failed verification attempt
+  queue?: QueuedCall[];      // Ringing calls waiting for an operator (call-queue object only)
+  activeCalls?: Record<string, ActiveCall>; // Calls with a live stream, by CallSid (logs-shared object only)
+  routing?: Record<string, NumberRouting>; // Inbound routing per phone number (routing-config object only)
+  schedule?: BusinessSchedule; // Business hours for numbers in 'schedule' mode (routing-config object only)
+  flows?: Record<string, CallFlowDefinition>; // Greeting and hold flow per phone number (routing-config object only)
+  sessionProfiles?: Record<string, SessionConfigProfile>; // Assistant settings by profile: 'default' or a phone number (routing-config object only)
   broadcastMessages?: Array<{
     messageId: string;
     message: any;
@@ -24,6 +51,329 @@ export interface Session {
   }>;                        // Pending broadcast messages
 }
 
+// Subset of Session written through Durable Object storage. Connection IDs and
+// stream timing only make sense for the live instance, so they are not kept.
+export type PersistedSession = Pick<
+  Session,
+  | 'sessionId'
+  | 'objectName'
+  | 'config'
+  | 'streamSid'
+  | 'callSid'
+  | 'createdAt'
+  | 'lastActivity'
+  | 'assignedTo'
+  | 'assignedToName'
+  | 'assignedAt'
+  | 'callerNumber'
+  | 'callerTimestamp'
+  | 'callerLocale'
+  | 'calledNumber'
+  | 'callMetadata'
+  | 'abandonedAt'
+  | 'autoAnsweredAt'
+  | 'transcriptTruncated'
+  | 'callStartedAt'
+  | 'callEndedAt'
+  | 'streamClosedAt'
+  | 'transfer'
+  | 'operatorTakeoverAt'
+  | 'verificationLocks'
+  | 'verificationAudit'
+  | 'queue'
+  | 'activeCalls'
+  | 'routing'
+  | 'schedule'
+  | 'flows'
+  | 'sessionProfiles'
+  | 'broadcastMessages'
+>;
+
+// Kinds of SessionManager instance, each with its own inactivity timeout
+export type SessionType = 'call' | 'logs' | 'helper' | 'config';
+
+// Socket tags: 'call' (Twilio media stream), 'logs' (dashboard) and 'queue'
+// (dashboard queue subscription) sockets are hibernatable; 'model' is the
+// outbound OpenAI socket held in memory
+export type SocketTag = 'call' | 'logs' | 'queue' | 'model';
+
+// Metadata serialized onto each hibernatable socket
+export interface SocketAttachment {
+  connectionId: string;
+  tag: SocketTag;
+  monitoring?: boolean;      // Dashboard socket listening in on live call audio
+  operatorId?: string;       // Operator a dashboard socket was opened for
+  operatorName?: string;
+}
+
+// Which side of the call a listen-in audio chunk came from
+export type MonitorLeg = 'caller' | 'assistant';
+
+// A ringing call waiting in the operator queue
+export interface QueuedCall {
+  callSid: string;
+  partialNumber: string;
+  enqueuedAt: number;
+}
+
+// Queue entry as returned to the dashboard, with its hold position (1 = next up)
+export interface QueueEntry extends QueuedCall {
+  holdPosition: number;
+}
+
+// A call with a live media stream, as listed on the dashboard (logs-shared object only)
+export interface ActiveCall {
+  callSid: string;
+  routingReason?: CallRoutingReason;
+  claimedBy?: string;
+  claimedByName?: string;
+  startedAt: number;
+}
+
+// Why a call left the queue
+export type QueueRemovalReason = 'claimed' | 'abandoned' | 'overflow' | 'rerouted';
+
+// Where an unanswered call goes once it has waited too long
+export type OverflowAction = 'ai' | 'voicemail' | 'forward';
+
+export interface OverflowConfig {
+  maxWaitMs: number;
+  action: OverflowAction;
+  forwardNumber?: string;
+}
+
+// How inbound calls to a number are answered: held for an operator to claim,
+// connected straight to the AI assistant, or decided by the business-hours schedule
+export type RoutingMode = 'operator' | 'ai' | 'schedule';
+
+// Flow an inbound call actually takes once routing and schedule are applied
+export type InboundFlow = 'operator' | 'ai' | 'closed';
+
+export type Weekday = 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat' | 'sun';
+
+// Opening window in local time, 'HH:MM' 24-hour; close is exclusive
+export interface BusinessHoursWindow {
+  open: string;
+  close: string;
+}
+
+export interface BusinessSchedule {
+  timezone: string;                                          // IANA zone, e.g. America/New_York
+  weeklyHours: Partial<Record<Weekday, BusinessHoursWindow[]>>; // Days without windows are closed
+  holidays: string[];                                        // Closed all day, local 'YYYY-MM-DD'
+  openFlow: 'operator' | 'ai';                               // Flow during opening hours
+  closedFlow: 'ai' | 'closed';                               // Flow outside hours and on holidays
+  closedMessage?: string;                                    // Spoken before voicemail in the closed flow
+}
+
+// Which flow is active for a number right now, and why
+export interface ActiveInboundFlow {
+  flow: InboundFlow;
+  reason: 'fixed' | 'open' | 'closed' | 'holiday' | 'no-schedule';
+  closedMessage?: string;
+}
+
+export interface NumberRouting {
+  mode: RoutingMode;
+  updatedAt: number;
+  updatedBy?: string;  // Operator ID that last changed the routing
+}
+
+// What callers hear on a number: greeting, then hold loop until an operator answers
+export interface CallFlowDefinition {
+  greeting: string;       // Spoken when the call first arrives
+  voice?: string;         // Twilio <Say> voice, e.g. Polly.Joanna
+  language?: string;      // <Say> language, e.g. en-US
+  holdMessage: string;    // Spoken at the start of each hold loop
+  holdTrack: string;      // Hold music file in the TRACKS bucket
+  holdLoops: number;      // Times the hold track plays per loop
+  retryMessage: string;   // Spoken before going round the hold loop again
+}
+
+// Failed-attempt counter for last-four-digit verification (per call or per operator)
+export interface VerificationLockState {
+  failedCount: number;   // Failures since the last lockout
+  lockouts: number;      // Lockouts so far, drives exponential backoff
+  lockedUntil?: number;  // Timestamp the current lockout ends
+}
+
+export interface VerificationAuditEntry {
+  operatorId: string;
+  timestamp: number;
+  lockedScope?: 'call' | 'operator'; // Set when this attempt triggered a lockout
+}
+
+// Result of a last-four-digit verification attempt
+export interface DigitVerificationResult {
+  valid: boolean;
+  locked?: boolean;
+  lockedScope?: 'call' | 'operator';
+  lockedUntil?: number;
+  newlyLocked?: boolean;       // This attempt triggered the lockout
+  abandoned?: boolean;         // Caller hung up before the call was claimed
+  autoAnswered?: boolean;      // The AI is already on the call, so no redirect is needed
+  attemptsRemaining?: number;
+}
+
+// Why a call was connected to the AI media stream
+export type CallRoutingReason = 'operator_claim' | 'auto_answer' | 'schedule' | 'overflow';
+
+// Call details sent to the media stream as <Parameter> elements and read back
+// from the Twilio 'start' event's customParameters
+export interface CallMetadata {
+  callerNumber?: string;
+  calledNumber?: string;     // Picks the session config profile for the call
+  claimedBy?: string;        // Operator ID that claimed the call
+  claimedByName?: string;
+  routingReason?: CallRoutingReason;
+  locale?: string;
+}
+
+// Assistant settings edited in the dashboard. Instructions and greeting are
+// templates, rendered per call; tools are added to the backend's own.
+export interface AssistantSessionConfig {
+  instructions?: string;
+  greeting?: string;
+  voice?: string;
+  tools?: any[];
+}
+
+export interface SessionConfigProfile extends AssistantSessionConfig {
+  updatedAt: number;
+  updatedBy?: string;        // Operator ID that last saved the profile
+}
+
+// Known details about a caller, keyed by phone number
+export interface CallerProfile {
+  name: string;
+  notes?: string;
+}
+
+// Values substituted into {{placeholders}} in instructions and greeting templates
+export interface PromptTemplateVariables {
+  callerName: string;
+  pharmacyName: string;
+  timeOfDay: 'morning' | 'afternoon' | 'evening';
+  operatorName: string;
+}
+
+// One finished turn of the conversation, from the Realtime transcription events,
+// or a whisper an operator sent to the assistant
+export interface TranscriptEntry {
+  role: 'caller' | 'assistant' | 'operator';
+  text: string;
+  at: number;
+}
+
+// A function the assistant called during a call, with the output it was given
+// by a backend handler or an operator
+export interface FunctionCallRecord {
+  callId?: string;
+  name: string;
+  arguments: string;
+  output?: string;
+  at: number;
+}
+
+// How a call ended up, as judged from its transcript
+export type CallDisposition = 'resolved' | 'follow_up' | 'transferred' | 'unresolved';
+
+// Structured summary generated once a call ends
+export interface PostCallSummary {
+  reasonForCall: string;
+  patient?: string;          // Name or identifier the caller gave, if any
+  medications: string[];
+  actionsPromised: string[];
+  followUpNeeded: boolean;
+  followUpNotes?: string;
+  disposition: CallDisposition;
+  generatedAt: number;
+}
+
+// A finished call as kept in the call history store
+export interface CallHistoryRecord {
+  callSid: string;
+  partialNumber?: string;    // Caller number with the last four digits hidden
+  calledNumber?: string;
+  routingReason?: CallRoutingReason;
+  claimedBy?: string;
+  claimedByName?: string;
+  transferStatus?: CallTransferStatus;
+  startedAt: number;
+  endedAt: number;
+  durationMs: number;
+  summary?: PostCallSummary;
+  transcript: TranscriptEntry[];
+  transcriptTruncated?: boolean; // The call ran long enough that its opening lines were not kept
+  functionCalls: FunctionCallRecord[];
+}
+
+// Call history list entries leave out the transcript and function calls
+export type CallHistorySummary = Omit<CallHistoryRecord, 'transcript' | 'transcriptTruncated' | 'functionCalls'>;
+
+export interface CallHistoryPage {
+  calls: CallHistorySummary[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+// Warm handoff lifecycle: hold audio and summary first, then the <Dial> redirect,
+// then the outcome reported by the <Dial> action callback
+export type CallTransferStatus = 'summarizing' | 'dialing' | 'answered' | 'completed' | 'unanswered' | 'failed';
+
+export interface CallTransfer {
+  status: CallTransferStatus;
+  reason: string;
+  requestedBy: string;       // 'assistant' or the operator ID that pressed Take over
+  startedAt: number;
+  summary?: string;
+  resumedAt?: number;        // When the assistant picked the call back up after no answer
+}
+
+export interface TransferResult {
+  success: boolean;
+  message: string;
+}
+
+// Dashboard actions that have to run in the call's own object
+export type ControlMessageType = 'hold_music.start' | 'hold_music.stop' | 'function_call_output';
+
+export interface ControlMessage {
+  type: ControlMessageType;
+  callSid?: string;
+  requestId?: string;        // Echoed back so the tab can match the ack to its request
+  holdMusicType?: string;    // hold_music.start only
+  call_id?: string;          // function_call_output only
+  output?: string;
+}
+
+export interface ControlResult {
+  success: boolean;
+  message: string;
+}
+
+// Per-call context handed to backend function handlers
+export interface FunctionCallContext {
+  callSid?: string;
+  metadata: CallMetadata;
+  transferToPharmacist?: (reason: string) => Promise<TransferResult>;
+}
+
+// Authenticated dashboard operator
+export interface Operator {
+  id: string;
+  name: string;
+}
+
+// Claims carried in a signed operator session token
+export interface OperatorTokenPayload {
+  sub: string;   // Operator ID
+  name: string;  // Operator display name
+  iat: number;   // Issued at (ms since epoch)
+  exp: number;   // Expires at (ms since epoch)
+}
+
 export interface FunctionCallItem {
   name: string;
   arguments: string;
@@ -39,7 +389,7 @@ export interface FunctionSchema {
 
 export interface FunctionHandler {
   schema: FunctionSchema;
-  handler: (args: any) => Promise<string>;
+  handler: (args: any, context?: FunctionCallContext) => Promise<string>;
 }
 
 // Cloudflare Workers types - simplified definitions
@@ -53,6 +403,7 @@ export interface WorkerEnv {
   OPENAI_API_KEY: string;
   PUBLIC_URL: string;
   TRACKS: R2Bucket;
+  CALL_HISTORY?: D1Database;         // Finished calls; history endpoints return 503 without it
   TWILIO_ACCOUNT_SID: string;
   TWILIO_AUTH_TOKEN: string;
   // AI Gateway configuration
@@ -60,6 +411,24 @@ export interface WorkerEnv {
   CLOUDFLARE_GATEWAY_ID: string;
   CLOUDFLARE_API_KEY: string;
   CLOUDFLARE_GATEWAY_URL: string;
+  // Operator authentication
+  OPERATOR_ACCOUNTS?: string;       // JSON: {"<operatorId>": {"name": "...", "password": "..."}}
+  OPERATOR_TOKEN_SECRET?: string;   // HMAC key for operator session tokens
+  OPERATOR_TOKEN_TTL_MS?: string;   // Optional token lifetime override
+  // Warm handoff
+  PHARMACIST_NUMBER?: string;        // E.164 number dialled by transfer_to_pharmacist and Take over
+  // Prompt templating
+  PHARMACY_NAME?: string;            // Fills {{pharmacyName}} (default "Fluffhead Pharmacy")
+  PHARMACY_TIMEZONE?: string;        // IANA timezone used for {{timeOfDay}} (default UTC)
+  CALLER_PROFILES?: string;          // JSON: {"+15551234567": {"name": "...", "notes": "..."}}
+  // Unanswered call overflow
+  OVERFLOW_MAX_WAIT_MS?: string;     // How long a caller waits before overflow (default 5 minutes)
+  OVERFLOW_ACTION?: string;          // 'ai' | 'voicemail' | 'forward'
+  OVERFLOW_FORWARD_NUMBER?: string;  // E.164 number dialled when OVERFLOW_ACTION is 'forward'
+  // Optional inactivity timeout overrides (milliseconds)
+  CALL_SESSION_TIMEOUT_MS?: string;
+  LOGS_SESSION_TIMEOUT_MS?: string;
+  HELPER_SESSION_TIMEOUT_MS?: string;
   headers: Record<string, string>;
 }
 
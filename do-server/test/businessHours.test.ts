@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { evaluateBusinessSchedule, validateBusinessSchedule } from '../src/businessHours';
+import { BusinessSchedule } from '../src/types';
+
+// Weekdays 09:00-17:30 in New York, with a lunch break on Saturdays
+const SCHEDULE: BusinessSchedule = {
+  timezone: 'America/New_York',
+  weeklyHours: {
+    mon: [{ open: '09:00', close: '17:30' }],
+    tue: [{ open: '09:00', close: '17:30' }],
+    wed: [{ open: '09:00', close: '17:30' }],
+    thu: [{ open: '09:00', close: '17:30' }],
+    fri: [{ open: '09:00', close: '17:30' }],
+    sat: [{ open: '10:00', close: '12:00' }, { open: '13:00', close: '15:00' }],
+  },
+  holidays: ['2025-07-04'],
+  openFlow: 'operator',
+  closedFlow: 'closed',
+  closedMessage: 'We are closed.',
+};
+
+describe('evaluateBusinessSchedule', () => {
+  it('is open inside a window, in the schedule timezone', () => {
+    // 09:00 in New York (EDT) is 13:00 UTC
+    expect(evaluateBusinessSchedule(SCHEDULE, new Date('2025-07-02T13:00:00Z'))).toEqual({ flow: 'operator', reason: 'open' });
+  });
+
+  it('is closed just before opening', () => {
+    const result = evaluateBusinessSchedule(SCHEDULE, new Date('2025-07-02T12:59:00Z'));
+    expect(result).toEqual({ flow: 'closed', reason: 'closed', closedMessage: 'We are closed.' });
+  });
+
+  it('closes at the closing minute', () => {
+    expect(evaluateBusinessSchedule(SCHEDULE, new Date('2025-07-02T21:29:00Z')).reason).toBe('open');
+    expect(evaluateBusinessSchedule(SCHEDULE, new Date('2025-07-02T21:30:00Z')).reason).toBe('closed');
+  });
+
+  it('uses the local date, not the UTC one, late in the evening', () => {
+    // Saturday 02:00 UTC is still the Friday holiday (22:00) in New York
+    expect(evaluateBusinessSchedule(SCHEDULE, new Date('2025-07-05T02:00:00Z')).reason).toBe('holiday');
+    // Saturday 11:00 in New York
+    expect(evaluateBusinessSchedule(SCHEDULE, new Date('2025-07-05T15:00:00Z')).reason).toBe('open');
+  });
+
+  it('is closed between two windows on the same day', () => {
+    expect(evaluateBusinessSchedule(SCHEDULE, new Date('2025-07-05T16:30:00Z')).reason).toBe('closed');
+  });
+
+  it('is closed on days without windows', () => {
+    expect(evaluateBusinessSchedule(SCHEDULE, new Date('2025-07-06T15:00:00Z')).reason).toBe('closed');
+  });
+
+  it('is closed all day on a holiday', () => {
+    const result = evaluateBusinessSchedule(SCHEDULE, new Date('2025-07-04T15:00:00Z'));
+    expect(result).toEqual({ flow: 'closed', reason: 'holiday', closedMessage: 'We are closed.' });
+  });
+
+  it('follows daylight saving time', () => {
+    // 09:00 in New York is 14:00 UTC in winter (EST)
+    expect(evaluateBusinessSchedule(SCHEDULE, new Date('2025-01-08T13:30:00Z')).reason).toBe('closed');
+    expect(evaluateBusinessSchedule(SCHEDULE, new Date('2025-01-08T14:00:00Z')).reason).toBe('open');
+  });
+});
+
+describe('validateBusinessSchedule', () => {
+  it('accepts a complete schedule', () => {
+    expect(validateBusinessSchedule(SCHEDULE)).toBeNull();
+  });
+
+  it('requires a timezone', () => {
+    const { timezone, ...rest } = SCHEDULE;
+    expect(validateBusinessSchedule(rest as BusinessSchedule)).toBe('timezone is required');
+  });
+
+  it('rejects an unknown timezone', () => {
+    expect(validateBusinessSchedule({ ...SCHEDULE, timezone: 'Mars/Olympus_Mons' })).toBe('Unknown timezone: Mars/Olympus_Mons');
+  });
+
+  it('rejects a closedMessage that is not text', () => {
+    const schedule = { ...SCHEDULE, closedMessage: 42 } as unknown as BusinessSchedule;
+    expect(validateBusinessSchedule(schedule)).toBe('closedMessage must be text');
+  });
+
+  it('caps the closedMessage length', () => {
+    expect(validateBusinessSchedule({ ...SCHEDULE, closedMessage: 'x'.repeat(501) })).toMatch(/500 characters/);
+  });
+
+  it('rejects windows that close before they open', () => {
+    const schedule = { ...SCHEDULE, weeklyHours: { mon: [{ open: '17:00', close: '09:00' }] } };
+    expect(validateBusinessSchedule(schedule)).toBe('Invalid hours for mon: close must be after open');
+  });
+});
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { appendFunctionCall, setFunctionOutput } from '../src/callHistory';
+import { MAX_STORED_VALUE_BYTES, serializedBytes } from '../src/storageLimits';
+import { FunctionCallRecord } from '../src/types';
+
+describe('function call records', () => {
+  it('attaches an output to its call', () => {
+    const calls = appendFunctionCall(undefined, { callId: 'call-1', name: 'lookup', arguments: '{}' });
+    expect(setFunctionOutput(calls, 'call-1', '{"ok":true}')[0]).toMatchObject({ callId: 'call-1', output: '{"ok":true}' });
+  });
+
+  it('keeps the stored list under the size cap however large the outputs', () => {
+    let calls: FunctionCallRecord[] = [];
+    for (let i = 0; i < 50; i++) {
+      calls = appendFunctionCall(calls, { callId: `call-${i}`, name: 'lookup', arguments: '{}' });
+      calls = setFunctionOutput(calls, `call-${i}`, '薬'.repeat(50000));
+    }
+
+    expect(serializedBytes(calls)).toBeLessThanOrEqual(MAX_STORED_VALUE_BYTES);
+    expect(calls.at(-1)?.callId).toBe('call-49');
+  });
+});
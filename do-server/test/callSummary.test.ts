@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { appendTranscript } from '../src/callSummary';
+import { MAX_STORED_VALUE_BYTES, serializedBytes } from '../src/storageLimits';
+import { TranscriptEntry } from '../src/types';
+
+function line(text: string): TranscriptEntry {
+  return { role: 'caller', text, at: 0 };
+}
+
+describe('appendTranscript', () => {
+  it('keeps every line of a call under the size cap', () => {
+    const transcript = Array.from({ length: 500 }, (_, i) => line(`Line ${i}`));
+    const result = appendTranscript(transcript, 'assistant', '  Anything else?  ');
+
+    expect(result.truncated).toBe(false);
+    expect(result.transcript).toHaveLength(501);
+    expect(result.transcript[0].text).toBe('Line 0');
+    expect(result.transcript[500]).toMatchObject({ role: 'assistant', text: 'Anything else?' });
+  });
+
+  it('drops the oldest lines once the stored size would pass the cap, and says so', () => {
+    const transcript = Array.from({ length: 8 }, (_, i) => line(`${i}`.repeat(14000)));
+    const result = appendTranscript(transcript, 'caller', 'x'.repeat(14000));
+
+    expect(result.truncated).toBe(true);
+    expect(result.transcript[0].text).toBe('1'.repeat(14000));
+    expect(result.transcript.at(-1)?.text).toBe('x'.repeat(14000));
+  });
+
+  it('counts bytes, not characters', () => {
+    // 3 UTF-8 bytes a character: under the cap in characters, over it in bytes
+    const transcript = Array.from({ length: 4 }, () => line('薬'.repeat(10000)));
+    const result = appendTranscript(transcript, 'caller', 'Thanks');
+
+    expect(result.truncated).toBe(true);
+    expect(result.transcript).toHaveLength(4);
+    expect(serializedBytes(result.transcript)).toBeLessThanOrEqual(MAX_STORED_VALUE_BYTES);
+  });
+
+  it('clips a single line too long to store', () => {
+    const result = appendTranscript([line('Hello')], 'caller', 'x'.repeat(200000));
+
+    expect(result.truncated).toBe(true);
+    expect(result.transcript.at(-1)?.text.length).toBeLessThan(200000);
+    expect(serializedBytes(result.transcript)).toBeLessThanOrEqual(MAX_STORED_VALUE_BYTES);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { authenticateOperator, getOperatorToken } from '../src/operatorAuth';
+import { WorkerEnv } from '../src/types';
+
+const env = {
+  OPERATOR_ACCOUNTS: JSON.stringify({
+    'op-1': { name: 'Pat', password: 'correct horse' },
+    'op-2': { name: 'Sam' },
+  }),
+} as WorkerEnv;
+
+describe('authenticateOperator', () => {
+  it('accepts the right password', () => {
+    expect(authenticateOperator(env, 'op-1', 'correct horse')).toEqual({ id: 'op-1', name: 'Pat' });
+  });
+
+  it('rejects a wrong password', () => {
+    expect(authenticateOperator(env, 'op-1', 'battery staple')).toBeNull();
+  });
+
+  it('rejects ids that only exist on the object prototype', () => {
+    expect(authenticateOperator(env, '__proto__', 'x')).toBeNull();
+    expect(authenticateOperator(env, 'constructor', 'x')).toBeNull();
+  });
+
+  it('rejects an account without a stored password', () => {
+    expect(authenticateOperator(env, 'op-2', 'anything')).toBeNull();
+  });
+});
+
+describe('getOperatorToken', () => {
+  it('reads a bearer token', () => {
+    const request = new Request('https://rx.example.com/calls', { headers: { Authorization: 'Bearer abc' } });
+    expect(getOperatorToken(request)).toBe('abc');
+  });
+
+  it('reads the query token on a WebSocket upgrade', () => {
+    const request = new Request('https://rx.example.com/logs?token=abc', { headers: { Upgrade: 'websocket' } });
+    expect(getOperatorToken(request)).toBe('abc');
+  });
+
+  it('ignores the query token on plain HTTP requests', () => {
+    expect(getOperatorToken(new Request('https://rx.example.com/calls?token=abc'))).toBeNull();
+  });
+});
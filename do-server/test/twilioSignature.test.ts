@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import {
+  TWILIO_SIGNATURE_HEADER,
+  buildSignedUrl,
+  computeTwilioSignature,
+  validateTwilioRequest,
+} from '../src/twilioSignature';
+
+// Test vector from Twilio's webhook security docs and the twilio-node validation suite
+const AUTH_TOKEN = '12345';
+const SIGNED_URL = 'https://mycompany.com/myapp.php?foo=1&bar=2';
+const PARAMS: Array<[string, string]> = [
+  ['CallSid', 'CA1234567890ABCDE'],
+  ['Caller', '+14158675309'],
+  ['Digits', '1234'],
+  ['From', '+14158675309'],
+  ['To', '+18005551212'],
+];
+const SIGNATURE = 'RSOYDt4T1cUTdK1PDd93/VVr8B8=';
+
+function webhookRequest(
+  url: string,
+  params: Array<[string, string]>,
+  signature?: string
+): Request {
+  const headers: Record<string, string> = { 'Content-Type': 'application/x-www-form-urlencoded' };
+  if (signature) headers[TWILIO_SIGNATURE_HEADER] = signature;
+  return new Request(url, {
+    method: 'POST',
+    headers,
+    body: new URLSearchParams(params).toString(),
+  });
+}
+
+describe('computeTwilioSignature', () => {
+  it('matches the published signature', async () => {
+    expect(await computeTwilioSignature(AUTH_TOKEN, SIGNED_URL, PARAMS)).toBe(SIGNATURE);
+  });
+
+  it('matches the docs example with a different caller', async () => {
+    const params: Array<[string, string]> = PARAMS.map(([key, value]) => [
+      key,
+      value === '+14158675309' ? '+12349013030' : value,
+    ]);
+    expect(await computeTwilioSignature(AUTH_TOKEN, SIGNED_URL, params)).toBe('0/KCTR6DLpKmkAf8muzZqo1nDgQ=');
+  });
+
+  it('sorts params by name, so their order does not matter', async () => {
+    expect(await computeTwilioSignature(AUTH_TOKEN, SIGNED_URL, [...PARAMS].reverse())).toBe(SIGNATURE);
+  });
+});
+
+describe('validateTwilioRequest', () => {
+  it('accepts a correctly signed request', async () => {
+    const result = await validateTwilioRequest(webhookRequest(SIGNED_URL, PARAMS, SIGNATURE), AUTH_TOKEN, 'https://mycompany.com');
+    expect(result).toEqual({ valid: true });
+  });
+
+  it('accepts params posted in a different order', async () => {
+    const reordered = [PARAMS[3], PARAMS[0], PARAMS[4], PARAMS[2], PARAMS[1]];
+    const result = await validateTwilioRequest(webhookRequest(SIGNED_URL, reordered, SIGNATURE), AUTH_TOKEN, 'https://mycompany.com');
+    expect(result.valid).toBe(true);
+  });
+
+  it('rejects a tampered param', async () => {
+    const tampered = PARAMS.map(([key, value]): [string, string] => [key, key === 'Digits' ? '9999' : value]);
+    const result = await validateTwilioRequest(webhookRequest(SIGNED_URL, tampered, SIGNATURE), AUTH_TOKEN, 'https://mycompany.com');
+    expect(result).toEqual({ valid: false, reason: 'Signature mismatch' });
+  });
+
+  it('rejects an added param', async () => {
+    const result = await validateTwilioRequest(
+      webhookRequest(SIGNED_URL, [...PARAMS, ['CallStatus', 'completed']], SIGNATURE),
+      AUTH_TOKEN,
+      'https://mycompany.com'
+    );
+    expect(result.valid).toBe(false);
+  });
+
+  it('rejects a request without the signature header', async () => {
+    const result = await validateTwilioRequest(webhookRequest(SIGNED_URL, PARAMS), AUTH_TOKEN, 'https://mycompany.com');
+    expect(result).toEqual({ valid: false, reason: 'Missing signature header' });
+  });
+
+  it('rejects every request when no auth token is configured', async () => {
+    const result = await validateTwilioRequest(webhookRequest(SIGNED_URL, PARAMS, SIGNATURE), undefined, 'https://mycompany.com');
+    expect(result).toEqual({ valid: false, reason: 'TWILIO_AUTH_TOKEN not configured' });
+  });
+
+  it('validates against PUBLIC_URL when the worker sees a proxied host', async () => {
+    const proxied = 'http://127.0.0.1:8787/myapp.php?foo=1&bar=2';
+    const result = await validateTwilioRequest(webhookRequest(proxied, PARAMS, SIGNATURE), AUTH_TOKEN, 'https://mycompany.com');
+    expect(result.valid).toBe(true);
+  });
+
+  it('rejects a proxied request when PUBLIC_URL names a different host', async () => {
+    const proxied = 'http://127.0.0.1:8787/myapp.php?foo=1&bar=2';
+    const result = await validateTwilioRequest(webhookRequest(proxied, PARAMS, SIGNATURE), AUTH_TOKEN, 'https://example.org');
+    expect(result.valid).toBe(false);
+  });
+
+  it('keeps a sub-path prefix from PUBLIC_URL', async () => {
+    const signedUrl = 'https://mycompany.com/voice/incoming-call';
+    const signature = await computeTwilioSignature(AUTH_TOKEN, signedUrl, PARAMS);
+    const result = await validateTwilioRequest(
+      webhookRequest('http://127.0.0.1:8787/incoming-call', PARAMS, signature),
+      AUTH_TOKEN,
+      'https://mycompany.com/voice'
+    );
+    expect(result.valid).toBe(true);
+  });
+});
+
+describe('buildSignedUrl', () => {
+  it('uses the public origin with the request path and query', () => {
+    expect(buildSignedUrl('http://localhost:8787/twiml?a=1', 'https://example.com')).toBe('https://example.com/twiml?a=1');
+  });
+
+  it('prepends the PUBLIC_URL path prefix', () => {
+    expect(buildSignedUrl('http://localhost:8787/incoming-call', 'https://example.com/voice/')).toBe(
+      'https://example.com/voice/incoming-call'
+    );
+  });
+
+  it('does not repeat a prefix the route already passed through', () => {
+    expect(buildSignedUrl('https://example.com/voice/incoming-call', 'https://example.com/voice')).toBe(
+      'https://example.com/voice/incoming-call'
+    );
+  });
+});
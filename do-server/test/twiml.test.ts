@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import * as doServerTwiml from '../src/twiml';
+import * as websocketServerTwiml from '../../websocket-server/src/twiml';
+import doServerSource from '../src/twiml.ts?raw';
+import websocketServerSource from '../../websocket-server/src/twiml.ts?raw';
+import websocketServerStream from './golden/websocket-server-stream.xml?raw';
+
+it('keeps the websocket-server builder identical to the do-server one', () => {
+  expect(websocketServerSource).toBe(doServerSource);
+});
+
+describe.each([
+  ['do-server', doServerTwiml],
+  ['websocket-server', websocketServerTwiml],
+])('%s TwiML builder', (_name, { buildTwiml, escapeXml, validateTwiml }) => {
+  it('escapes all five XML special characters', () => {
+    expect(escapeXml(`<a href="x">Tom & Jerry's</a>`)).toBe(
+      '&lt;a href=&quot;x&quot;&gt;Tom &amp; Jerry&apos;s&lt;/a&gt;'
+    );
+  });
+
+  it('escapes text and attributes', () => {
+    const twiml = buildTwiml([
+      { verb: 'Say', text: 'Fish & chips </Say><Hangup/>', voice: 'Polly."Joanna"' },
+      { verb: 'Play', url: 'https://example.com/hold.mp3?a=1&b=2' },
+    ]);
+    expect(twiml).toBe(
+      [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<Response>',
+        '  <Say voice="Polly.&quot;Joanna&quot;">Fish &amp; chips &lt;/Say&gt;&lt;Hangup/&gt;</Say>',
+        '  <Play>https://example.com/hold.mp3?a=1&amp;b=2</Play>',
+        '</Response>',
+      ].join('\n')
+    );
+  });
+
+  it('renders the websocket-server stream response', () => {
+    const twiml = buildTwiml([
+      { verb: 'Connect', stream: { url: 'wss://rx.example.com/call' } },
+      { verb: 'Say', text: 'Disconnected' },
+    ]);
+    expect(twiml).toBe(websocketServerStream.trimEnd());
+  });
+
+  it('nests Gather children one level deeper', () => {
+    const twiml = buildTwiml([
+      {
+        verb: 'Gather',
+        input: 'dtmf',
+        numDigits: 1,
+        action: '/menu?step=1&lang=en',
+        children: [{ verb: 'Say', text: 'Press 1' }, { verb: 'Pause', length: 2 }],
+      },
+      { verb: 'Redirect', url: '/menu', method: 'POST' },
+    ]);
+    expect(twiml).toBe(
+      [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<Response>',
+        '  <Gather input="dtmf" action="/menu?step=1&amp;lang=en" numDigits="1">',
+        '    <Say>Press 1</Say>',
+        '    <Pause length="2" />',
+        '  </Gather>',
+        '  <Redirect method="POST">/menu</Redirect>',
+        '</Response>',
+      ].join('\n')
+    );
+  });
+
+  it('rejects an empty response', () => {
+    expect(() => validateTwiml([])).toThrow('a response needs at least one verb');
+  });
+
+  it('rejects verbs after Redirect or Hangup', () => {
+    expect(() => buildTwiml([{ verb: 'Hangup' }, { verb: 'Say', text: 'Bye' }])).toThrow('Hangup must be the last verb');
+  });
+
+  it('rejects a stream that is not wss://', () => {
+    expect(() => buildTwiml([{ verb: 'Connect', stream: { url: 'https://example.com/call' } }])).toThrow(
+      'Stream url must use wss://'
+    );
+  });
+
+  it('rejects verbs Twilio does not allow inside Gather', () => {
+    expect(() =>
+      buildTwiml([{ verb: 'Gather', children: [{ verb: 'Hangup' } as never] }])
+    ).toThrow('Hangup cannot be nested in Gather');
+  });
+
+  it('rejects missing text and bad counts', () => {
+    expect(() => buildTwiml([{ verb: 'Say', text: '  ' }])).toThrow('Say text is required');
+    expect(() => buildTwiml([{ verb: 'Play', url: 'https://example.com/a.mp3', loop: -1 }])).toThrow(
+      'Play loop must be a non-negative integer'
+    );
+    expect(() => buildTwiml([{ verb: 'Dial', number: '' }])).toThrow('Dial number is required');
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CALL_FLOW } from '../src/callFlows';
+import {
+  DEFAULT_CLOSED_MESSAGE,
+  OVERFLOW_VOICEMAIL_MESSAGE,
+  buildForwardTwiml,
+  buildGreetingTwiml,
+  buildHangupTwiml,
+  buildHoldTwiml,
+  buildStreamTwiml,
+  buildTransferTwiml,
+  buildVoicemailTwiml,
+} from '../src/twimlResponses';
+import closedHours from './golden/closed-hours.xml?raw';
+import greeting from './golden/greeting.xml?raw';
+import hangup from './golden/hangup.xml?raw';
+import hold from './golden/hold.xml?raw';
+import overflowForward from './golden/overflow-forward.xml?raw';
+import overflowVoicemail from './golden/overflow-voicemail.xml?raw';
+import prefixedGreeting from './golden/prefixed-greeting.xml?raw';
+import prefixedHold from './golden/prefixed-hold.xml?raw';
+import prefixedStream from './golden/prefixed-stream.xml?raw';
+import prefixedTransferDial from './golden/prefixed-transfer-dial.xml?raw';
+import stream from './golden/stream.xml?raw';
+import transferDial from './golden/transfer-dial.xml?raw';
+
+const PUBLIC_URL = 'https://rx.example.com';
+// A worker mounted under a sub-path
+const PREFIXED_PUBLIC_URL = 'https://rx.example.com/pharmacy/';
+const FLOW = { ...DEFAULT_CALL_FLOW, voice: 'Polly.Joanna', language: 'en-US' };
+
+// Golden files end with a newline, the builder output does not
+function golden(xml: string): string {
+  return xml.trimEnd();
+}
+
+describe('TwiML responses', () => {
+  it('greets the caller and redirects to /incoming-call', () => {
+    const flow = { ...FLOW, greeting: "Welcome to Smith & Sons' pharmacy. Please wait." };
+    expect(buildGreetingTwiml(PUBLIC_URL, flow)).toBe(golden(greeting));
+  });
+
+  it('plays one hold loop for a queued caller', () => {
+    expect(buildHoldTwiml(PUBLIC_URL, FLOW)).toBe(golden(hold));
+  });
+
+  it('takes a voicemail outside business hours', () => {
+    expect(buildVoicemailTwiml(DEFAULT_CLOSED_MESSAGE, FLOW)).toBe(golden(closedHours));
+  });
+
+  it('takes a voicemail on overflow', () => {
+    expect(buildVoicemailTwiml(OVERFLOW_VOICEMAIL_MESSAGE)).toBe(golden(overflowVoicemail));
+  });
+
+  it('forwards an overflowing call', () => {
+    expect(buildForwardTwiml('+15551234567')).toBe(golden(overflowForward));
+  });
+
+  it('connects the stream with call metadata as escaped parameters', () => {
+    const twiml = buildStreamTwiml(PUBLIC_URL, 'CA123', {
+      callerNumber: '+15551234567',
+      calledNumber: '+15557654321',
+      claimedBy: 'op-1',
+      claimedByName: `Pat "PJ" O'Neil & <Co>`,
+      routingReason: 'operator_claim',
+      locale: 'en-US',
+    });
+    expect(twiml).toBe(golden(stream));
+  });
+
+  it('leaves unset metadata out of the stream parameters', () => {
+    const twiml = buildStreamTwiml(PUBLIC_URL, 'CA123', { callerNumber: '+15551234567' });
+    expect(twiml).toContain('<Parameter name="callerNumber" value="+15551234567" />');
+    expect(twiml).not.toContain('claimedBy');
+  });
+
+  it('dials the pharmacist for a warm transfer', () => {
+    expect(buildTransferTwiml(PUBLIC_URL, '+15550001111')).toBe(golden(transferDial));
+  });
+
+  it('hangs up after the pharmacist call', () => {
+    expect(buildHangupTwiml()).toBe(golden(hangup));
+  });
+});
+
+describe('TwiML responses under a PUBLIC_URL path prefix', () => {
+  const flow = { ...DEFAULT_CALL_FLOW, voice: 'Polly.Joanna', language: 'en-US' };
+
+  it('keeps the prefix on the greeting redirect', () => {
+    expect(buildGreetingTwiml(PREFIXED_PUBLIC_URL, flow)).toBe(golden(prefixedGreeting));
+  });
+
+  it('keeps the prefix on the hold music and hold redirect', () => {
+    expect(buildHoldTwiml(PREFIXED_PUBLIC_URL, flow)).toBe(golden(prefixedHold));
+  });
+
+  it('keeps the prefix on the stream URL', () => {
+    const twiml = buildStreamTwiml(PREFIXED_PUBLIC_URL, 'CA123', { callerNumber: '+15551234567' });
+    expect(twiml).toBe(golden(prefixedStream));
+  });
+
+  it('keeps the prefix on the transfer callbacks', () => {
+    expect(buildTransferTwiml(PREFIXED_PUBLIC_URL, '+15550001111')).toBe(golden(prefixedTransferDial));
+  });
+});
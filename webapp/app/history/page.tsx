@@ -0,0 +1,5 @@
+import CallHistory from "@/components/call-history";
+
+export default function HistoryPage() {
+  return <CallHistory />;
+}
@@ -0,0 +1,59 @@
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Mic, MicOff } from "lucide-react";
+
+type BargeInControlProps = {
+  connected: boolean;
+  talking: boolean;
+  error: string;
+  onStartTalking: () => void;
+  onStopTalking: () => void;
+};
+
+const BargeInControl: React.FC<BargeInControlProps> = ({
+  connected,
+  talking,
+  error,
+  onStartTalking,
+  onStopTalking,
+}) => {
+  return (
+    <Card className="flex flex-col">
+      <CardHeader className="space-y-1.5 pb-0">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base font-semibold">
+            Talk to Caller
+          </CardTitle>
+          {talking && <Badge variant="destructive">Live</Badge>}
+        </div>
+      </CardHeader>
+      <CardContent className="p-4 space-y-2">
+        <Button
+          className="w-full select-none"
+          variant={talking ? "destructive" : "outline"}
+          disabled={!connected}
+          onPointerDown={onStartTalking}
+          onPointerUp={onStopTalking}
+          onPointerLeave={onStopTalking}
+        >
+          {talking ? (
+            <Mic className="h-4 w-4 mr-2" />
+          ) : (
+            <MicOff className="h-4 w-4 mr-2" />
+          )}
+          {talking ? "Talking - release to stop" : "Hold to Talk"}
+        </Button>
+        <p className="text-xs text-muted-foreground">
+          {connected
+            ? "The assistant is muted while you talk"
+            : "Claim a call to speak to the caller"}
+        </p>
+        {error && <p className="text-xs text-red-500">{error}</p>}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BargeInControl;
@@ -0,0 +1,201 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { getBackendHttpUrl } from "@/lib/config";
+import { CallFlowDefinition, useCallFlow } from "@/lib/use-call-flow";
+
+interface CallFlowDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  phoneNumber: string;
+  token: string | null;
+}
+
+export const CallFlowDialog: React.FC<CallFlowDialogProps> = ({
+  open,
+  onOpenChange,
+  phoneNumber,
+  token,
+}) => {
+  const { flow, saveFlow } = useCallFlow(phoneNumber, token);
+  const [draft, setDraft] = useState<CallFlowDefinition | null>(null);
+  const [holdTracks, setHoldTracks] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState("");
+
+  // Start each edit from the saved flow
+  useEffect(() => {
+    if (open && flow) {
+      setDraft(flow);
+      setSaveError("");
+    }
+  }, [open, flow]);
+
+  // Offer the hold music files Twilio can play
+  useEffect(() => {
+    if (!open) return;
+    fetch(`${getBackendHttpUrl()}/hold-music/files`)
+      .then((res) => res.json())
+      .then((data) => {
+        const files = (data as { files?: { key: string }[] }).files || [];
+        setHoldTracks(
+          files
+            .map((file) => file.key)
+            .filter((key) => /\.(mp3|wav)$/.test(key))
+        );
+      })
+      .catch((error) => {
+        console.error("Error fetching hold music files:", error);
+      });
+  }, [open]);
+
+  const updateDraft = (changes: Partial<CallFlowDefinition>) => {
+    setDraft((prev) => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+    setIsSaving(true);
+    setSaveError("");
+
+    try {
+      await saveFlow(draft);
+      onOpenChange(false);
+    } catch (error) {
+      setSaveError(
+        error instanceof Error ? error.message : "Failed to save call flow"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Greeting & Hold Flow</DialogTitle>
+          <DialogDescription>
+            What callers to {phoneNumber || "this number"} hear before an
+            operator answers.
+          </DialogDescription>
+        </DialogHeader>
+        {draft ? (
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="flowGreeting">Greeting</Label>
+              <Textarea
+                id="flowGreeting"
+                value={draft.greeting}
+                onChange={(e) => updateDraft({ greeting: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="flowVoice">Voice</Label>
+                <Input
+                  id="flowVoice"
+                  placeholder="Polly.Joanna"
+                  value={draft.voice || ""}
+                  onChange={(e) => updateDraft({ voice: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="flowLanguage">Language</Label>
+                <Input
+                  id="flowLanguage"
+                  placeholder="en-US"
+                  value={draft.language || ""}
+                  onChange={(e) => updateDraft({ language: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="flowHoldMessage">Hold message</Label>
+              <Input
+                id="flowHoldMessage"
+                value={draft.holdMessage}
+                onChange={(e) => updateDraft({ holdMessage: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Hold track</Label>
+                <Select
+                  value={draft.holdTrack}
+                  onValueChange={(value) => updateDraft({ holdTrack: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from(new Set([draft.holdTrack, ...holdTracks])).map(
+                      (track) => (
+                        <SelectItem key={track} value={track}>
+                          {track}
+                        </SelectItem>
+                      )
+                    )}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="flowHoldLoops">Plays per loop</Label>
+                <Input
+                  id="flowHoldLoops"
+                  type="number"
+                  min={1}
+                  max={10}
+                  value={draft.holdLoops}
+                  onChange={(e) =>
+                    updateDraft({ holdLoops: Number(e.target.value) })
+                  }
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="flowRetryMessage">Retry message</Label>
+              <Input
+                id="flowRetryMessage"
+                value={draft.retryMessage}
+                onChange={(e) => updateDraft({ retryMessage: e.target.value })}
+              />
+            </div>
+            {saveError && <p className="text-sm text-red-600">{saveError}</p>}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground py-4">Loading...</p>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!draft || isSaving}>
+            {isSaving ? "Saving..." : "Save Changes"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CallFlowDialog;
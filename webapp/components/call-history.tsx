@@ -0,0 +1,243 @@
+"use client";
+
+import React, { useState } from "react";
+import TopBar from "@/components/top-bar";
+import OperatorLoginDialog from "@/components/operator-login-dialog";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import CallSummaryCard from "@/components/call-summary-card";
+import { Search } from "lucide-react";
+import { useOperatorSession } from "@/lib/use-operator-session";
+import {
+  CALL_HISTORY_PAGE_SIZE,
+  CallHistoryTranscriptEntry,
+  useCallHistory,
+  useCallRecord,
+} from "@/lib/use-call-history";
+
+const ROLE_LABELS: Record<CallHistoryTranscriptEntry["role"], string> = {
+  caller: "Caller",
+  assistant: "Assistant",
+  operator: "Operator Note",
+};
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.round(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+const CallHistory = () => {
+  const {
+    loaded: operatorLoaded,
+    operator,
+    token,
+    login,
+    logout,
+  } = useOperatorSession();
+  const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
+  const [offset, setOffset] = useState(0);
+  const [selectedCallSid, setSelectedCallSid] = useState<string | null>(null);
+  const { page, loading, error } = useCallHistory(token, query, offset);
+  const { record, error: recordError } = useCallRecord(selectedCallSid, token);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setQuery(search.trim());
+    setOffset(0);
+  };
+
+  const total = page?.total ?? 0;
+
+  return (
+    <div className="h-screen bg-white flex flex-col">
+      <TopBar operator={operator} onLogout={logout} />
+      <div className="flex-grow p-4 overflow-hidden">
+        <div className="grid grid-cols-12 gap-4 h-full">
+          {/* Left Column: search and results */}
+          <Card className="col-span-5 flex flex-col h-full overflow-hidden">
+            <CardHeader className="space-y-3 pb-0">
+              <CardTitle className="text-base font-semibold">
+                Call History
+              </CardTitle>
+              <form onSubmit={handleSearch} className="flex gap-2">
+                <Input
+                  placeholder="Search transcripts"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                />
+                <Button type="submit" size="icon" disabled={!token}>
+                  <Search className="h-4 w-4" />
+                </Button>
+              </form>
+            </CardHeader>
+            <CardContent className="flex-1 p-4 min-h-0 flex flex-col gap-3">
+              {error && <p className="text-xs text-red-500">{error}</p>}
+              <ScrollArea className="flex-1">
+                <div className="space-y-2">
+                  {page?.calls.map((call) => (
+                    <button
+                      key={call.callSid}
+                      className={`w-full text-left rounded-md border p-3 text-sm space-y-1 ${
+                        call.callSid === selectedCallSid ? "bg-muted" : ""
+                      }`}
+                      onClick={() => setSelectedCallSid(call.callSid)}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium">
+                          {call.partialNumber || "Unknown caller"}
+                        </span>
+                        <span className="text-xs text-muted-foreground">
+                          {formatDuration(call.durationMs)}
+                        </span>
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {new Date(call.startedAt).toLocaleString()}
+                        {call.claimedByName && ` · ${call.claimedByName}`}
+                      </div>
+                      {call.summary && (
+                        <div className="text-xs truncate">
+                          {call.summary.reasonForCall}
+                        </div>
+                      )}
+                    </button>
+                  ))}
+                  {page && page.calls.length === 0 && !loading && (
+                    <p className="text-sm text-muted-foreground">
+                      {query ? "No calls match this search" : "No calls yet"}
+                    </p>
+                  )}
+                </div>
+              </ScrollArea>
+              <div className="flex items-center justify-between text-xs text-muted-foreground">
+                <span>
+                  {total > 0
+                    ? `${offset + 1}-${Math.min(
+                        offset + CALL_HISTORY_PAGE_SIZE,
+                        total
+                      )} of ${total}`
+                    : loading
+                    ? "Loading..."
+                    : ""}
+                </span>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={offset === 0 || loading}
+                    onClick={() =>
+                      setOffset(Math.max(offset - CALL_HISTORY_PAGE_SIZE, 0))
+                    }
+                  >
+                    Previous
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    disabled={offset + CALL_HISTORY_PAGE_SIZE >= total || loading}
+                    onClick={() => setOffset(offset + CALL_HISTORY_PAGE_SIZE)}
+                  >
+                    Next
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Right Column: the selected call */}
+          <Card className="col-span-7 flex flex-col h-full overflow-hidden">
+            <CardHeader className="space-y-1.5 pb-0">
+              <CardTitle className="text-base font-semibold">
+                {record ? `Call ${record.callSid}` : "Call Details"}
+              </CardTitle>
+              {record && (
+                <div className="flex flex-wrap gap-2 text-xs text-muted-foreground items-center">
+                  <span>{new Date(record.startedAt).toLocaleString()}</span>
+                  <span>· {formatDuration(record.durationMs)}</span>
+                  {record.calledNumber && <span>· to {record.calledNumber}</span>}
+                  {record.claimedByName && (
+                    <span>· handled by {record.claimedByName}</span>
+                  )}
+                  {record.routingReason && (
+                    <Badge variant="secondary">{record.routingReason}</Badge>
+                  )}
+                  {record.transferStatus && (
+                    <Badge variant="secondary">
+                      Transfer: {record.transferStatus}
+                    </Badge>
+                  )}
+                </div>
+              )}
+            </CardHeader>
+            <CardContent className="flex-1 p-4 min-h-0">
+              {recordError && (
+                <p className="text-xs text-red-500">{recordError}</p>
+              )}
+              {!selectedCallSid && (
+                <p className="text-sm text-muted-foreground">
+                  Select a call to see its transcript
+                </p>
+              )}
+              {record && (
+                <ScrollArea className="h-full">
+                  <div className="space-y-3">
+                    {record.summary && (
+                      <CallSummaryCard summary={record.summary} />
+                    )}
+                    {record.transcriptTruncated && (
+                      <p className="text-xs text-muted-foreground">
+                        This call ran long - its earliest lines were not kept
+                      </p>
+                    )}
+                    {record.transcript.map((entry, index) => (
+                      <div key={index} className="text-sm">
+                        <div className="text-xs text-muted-foreground">
+                          {ROLE_LABELS[entry.role]} ·{" "}
+                          {formatDuration(entry.at - record.startedAt)}
+                        </div>
+                        <p className="whitespace-pre-wrap">{entry.text}</p>
+                      </div>
+                    ))}
+                    {record.transcript.length === 0 && (
+                      <p className="text-sm text-muted-foreground">
+                        Nothing was transcribed on this call
+                      </p>
+                    )}
+                    {record.functionCalls.length > 0 && (
+                      <div className="pt-3 border-t space-y-2">
+                        <p className="text-sm font-medium">Function Calls</p>
+                        {record.functionCalls.map((call, index) => (
+                          <div
+                            key={call.callId || index}
+                            className="rounded-md border p-2 text-xs font-mono break-all space-y-1"
+                          >
+                            <div>
+                              {call.name}({call.arguments})
+                            </div>
+                            <div className="text-muted-foreground">
+                              {call.output ?? "No output"}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </ScrollArea>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+
+      {/* Operator sign-in */}
+      <OperatorLoginDialog open={operatorLoaded && !operator} onLogin={login} />
+    </div>
+  );
+};
+
+export default CallHistory;
@@ -7,40 +7,132 @@ import SessionConfigurationPanel from "@/components/session-configuration-panel"
 import Transcript from "@/components/transcript";
 import FunctionCallsPanel from "@/components/function-calls-panel";
 import IncomingCallToast from "@/components/incoming-call-toast";
-import { Item } from "@/components/types";
-import handleRealtimeEvent from "@/lib/handle-realtime-event";
+import OperatorLoginDialog from "@/components/operator-login-dialog";
+import CallQueuePanel from "@/components/call-queue-panel";
+import CallFlowDialog from "@/components/call-flow-dialog";
+import CallTransferPanel from "@/components/call-transfer-panel";
+import BargeInControl from "@/components/barge-in-control";
+import CallMonitorPanel from "@/components/call-monitor-panel";
+import WhisperInput from "@/components/whisper-input";
+import CallTabs from "@/components/call-tabs";
+import CallSummaryCard from "@/components/call-summary-card";
 import PhoneNumberChecklist from "@/components/phone-number-checklist";
 import { getBackendWsUrl, getBackendHttpUrl } from "@/lib/config";
+import { useOperatorSession } from "@/lib/use-operator-session";
+import { useCallQueue, QueueEntry } from "@/lib/use-call-queue";
+import { useNumberRouting } from "@/lib/use-number-routing";
+import { useCallTransfer } from "@/lib/use-call-transfer";
+import { useCallSessions } from "@/lib/use-call-sessions";
+import { useCallSocket } from "@/lib/use-call-socket";
+import { useBargeIn } from "@/lib/use-barge-in";
+import { useCallMonitor } from "@/lib/use-call-monitor";
 
 interface IncomingCall {
   callSid: string;
   partialNumber: string;
   timestamp: number;
+  lockedUntil?: number;
+  autoAnswered?: boolean;
 }
 
 const CallInterface = () => {
   const [selectedPhoneNumber, setSelectedPhoneNumber] = useState("");
+  const [selectedNumberE164, setSelectedNumberE164] = useState("");
+  const [flowDialogOpen, setFlowDialogOpen] = useState(false);
   const [allConfigsReady, setAllConfigsReady] = useState(false);
-  const [items, setItems] = useState<Item[]>([]);
   const [callStatus, setCallStatus] = useState("disconnected");
   const [ws, setWs] = useState<WebSocket | null>(null);
   const [incomingCall, setIncomingCall] = useState<IncomingCall | null>(null);
   const [lastMessageId, setLastMessageId] = useState<string | null>(null);
-  const [sessionId] = useState(() => {
-    // Generate a unique session ID for this browser session
-    return `frontend-${Date.now()}-${Math.random()
-      .toString(36)
-      .substring(2, 9)}`;
-  });
+  const [activeCallSid, setActiveCallSid] = useState<string | null>(null);
+  const {
+    loaded: operatorLoaded,
+    operator,
+    token,
+    login,
+    logout,
+  } = useOperatorSession();
+  const { entries: queueEntries, connected: queueConnected } =
+    useCallQueue(token);
+  const {
+    mode: routingMode,
+    setMode: setRoutingMode,
+    saving: routingSaving,
+    activeFlow,
+  } = useNumberRouting(selectedNumberE164, token);
+  const {
+    requesting: transferRequesting,
+    error: transferError,
+    requestTransfer,
+  } = useCallTransfer(token);
+  const { calls, handleCallEvent, dismissCall } = useCallSessions();
+  const selectedCall = calls.find((call) => call.callSid === activeCallSid);
+  // Whisper, listen-in and barge-in belong to the operator who claimed the call
+  const ownsSelectedCall =
+    !!operator &&
+    !!selectedCall &&
+    !selectedCall.endedAt &&
+    selectedCall.claimedBy === operator.id;
+  const callSocket = useCallSocket(
+    ownsSelectedCall ? activeCallSid : null,
+    token
+  );
+  const {
+    talking,
+    error: bargeInError,
+    startTalking,
+    stopTalking,
+  } = useBargeIn(callSocket);
+  const {
+    listening,
+    volumes: monitorVolumes,
+    setVolume: setMonitorVolume,
+    startListening,
+    stopListening,
+  } = useCallMonitor(callSocket);
+
+  // Drop the toast once its call has left the queue (claimed or abandoned).
+  // Auto-answered calls never join the queue.
+  useEffect(() => {
+    if (!incomingCall || incomingCall.autoAnswered || !queueConnected) return;
+    const stillQueued = queueEntries.some(
+      (entry) => entry.callSid === incomingCall.callSid
+    );
+    if (!stillQueued) {
+      setIncomingCall(null);
+    }
+  }, [queueEntries, queueConnected]);
+
+  // Apply a verification lockout to the toast if it covers this operator
+  const handleCallLocked = (message: any) => {
+    if (message.scope === "operator" && message.operatorId !== operator?.id) {
+      return;
+    }
+    setIncomingCall((prev) =>
+      prev && prev.callSid === message.callSid
+        ? { ...prev, lockedUntil: message.lockedUntil }
+        : prev
+    );
+  };
 
   const checkForBroadcastMessages = async () => {
+    if (!token) return;
+
     try {
       const url = new URL(`${getBackendHttpUrl()}/broadcast-registry/get-broadcasts`);
       if (lastMessageId) {
         url.searchParams.set('lastMessageId', lastMessageId);
       }
       
-      const response = await fetch(url.toString());
+      const response = await fetch(url.toString(), {
+        headers: { Authorization: `Bearer ${token}` },
+      });
+
+      if (response.status === 401) {
+        // Token rejected by the worker - ask the operator to sign in again
+        logout();
+        return;
+      }
       
       if (response.ok) {
         const messages = (await response.json()) as Array<{
@@ -65,11 +157,29 @@ const CallInterface = () => {
               partialNumber: message.partialNumber,
               timestamp: message.timestamp,
             });
+          } else if (message.type === "call_auto_answered") {
+            // The AI picked up - offer to take over
+            setIncomingCall({
+              callSid: message.callSid,
+              partialNumber: message.partialNumber,
+              timestamp: message.timestamp,
+              autoAnswered: true,
+            });
           } else if (message.type === "call_claimed") {
             // Hide the toast when ANY session claims this call
             if (incomingCall?.callSid === message.callSid) {
               setIncomingCall(null);
             }
+          } else if (message.type === "incoming_call.locked") {
+            handleCallLocked(message);
+          } else if (
+            message.type === "call_abandoned" ||
+            message.type === "call_overflow"
+          ) {
+            // Caller hung up or was routed elsewhere while waiting
+            setIncomingCall((prev) =>
+              prev?.callSid === message.callSid ? null : prev
+            );
           }
         }
       }
@@ -80,7 +190,7 @@ const CallInterface = () => {
 
   // Poll for broadcast messages (incoming calls, etc.)
   useEffect(() => {
-    if (!allConfigsReady) return;
+    if (!allConfigsReady || !token) return;
 
     const pollInterval = setInterval(checkForBroadcastMessages, 1000);
     
@@ -88,10 +198,17 @@ const CallInterface = () => {
     checkForBroadcastMessages();
     
     return () => clearInterval(pollInterval);
-  }, [allConfigsReady, lastMessageId]);
+  }, [allConfigsReady, lastMessageId, token]);
+
+  // Close the logs socket when the operator signs out
+  useEffect(() => {
+    if (!token && ws) {
+      ws.close();
+    }
+  }, [token, ws]);
 
   useEffect(() => {
-    if (allConfigsReady && !ws) {
+    if (allConfigsReady && token && !ws) {
       // Check if there's a callSid in the URL (user refreshed during a call)
       const urlParams = new URLSearchParams(window.location.search);
       const existingCallSid = urlParams.get("callSid");
@@ -104,15 +221,16 @@ const CallInterface = () => {
         // Connect to logs WebSocket (not call WebSocket) and set status to in-call
         // The transcript will come through the logs broadcast system
         setCallStatus("in-call");
+        setActiveCallSid(existingCallSid);
       }
 
-      const wsUrl = `${getBackendWsUrl()}/logs?sessionId=${encodeURIComponent(
-        sessionId
+      const wsUrl = `${getBackendWsUrl()}/logs?token=${encodeURIComponent(
+        token
       )}`;
       const newWs = new WebSocket(wsUrl);
 
       newWs.onopen = () => {
-        console.log("Connected to logs websocket with session:", sessionId);
+        console.log("Connected to logs websocket as operator:", operator?.id);
         setCallStatus("connected");
 
         // Original approach - handle broadcasts via WebSocket messages
@@ -129,17 +247,35 @@ const CallInterface = () => {
             partialNumber: data.partialNumber,
             timestamp: data.timestamp,
           });
+        } else if (data.type === "call_auto_answered") {
+          // The AI picked up - offer to take over
+          setIncomingCall({
+            callSid: data.callSid,
+            partialNumber: data.partialNumber,
+            timestamp: data.timestamp,
+            autoAnswered: true,
+          });
         } else if (data.type === "call_claimed") {
           // Hide the toast if this call was claimed by someone else
           if (
             incomingCall?.callSid === data.callSid &&
-            data.claimedBy !== sessionId
+            data.claimedBy !== operator?.id
           ) {
             setIncomingCall(null);
           }
+        } else if (data.type === "incoming_call.locked") {
+          handleCallLocked(data);
+        } else if (
+          data.type === "call_abandoned" ||
+          data.type === "call_overflow"
+        ) {
+          // Caller hung up or was routed elsewhere while waiting
+          setIncomingCall((prev) =>
+            prev?.callSid === data.callSid ? null : prev
+          );
         } else {
-          // Handle regular realtime events
-          handleRealtimeEvent(data, setItems);
+          // Transcript, status and transfer events for one call's tab
+          handleCallEvent(data);
         }
       };
 
@@ -151,7 +287,34 @@ const CallInterface = () => {
 
       setWs(newWs);
     }
-  }, [allConfigsReady, ws]);
+  }, [allConfigsReady, token, ws]);
+
+  // Watch the first live call until the operator picks one
+  useEffect(() => {
+    if (activeCallSid) return;
+    const liveCall = calls.find((call) => !call.endedAt);
+    if (liveCall) {
+      setActiveCallSid(liveCall.callSid);
+    }
+  }, [calls, activeCallSid]);
+
+  const handleSelectCall = (callSid: string) => {
+    // Keep the URL on the call being viewed so a refresh comes back to it
+    const newUrl = new URL(window.location.href);
+    newUrl.searchParams.set("callSid", callSid);
+    window.history.replaceState({}, "", newUrl.toString());
+    setActiveCallSid(callSid);
+  };
+
+  const handleDismissCall = (callSid: string) => {
+    dismissCall(callSid);
+    if (callSid === activeCallSid) {
+      const newUrl = new URL(window.location.href);
+      newUrl.searchParams.delete("callSid");
+      window.history.replaceState({}, "", newUrl.toString());
+      setActiveCallSid(null);
+    }
+  };
 
   const handleAcceptCall = () => {
     console.log("User clicked Accept on incoming call");
@@ -166,10 +329,18 @@ const CallInterface = () => {
     setIncomingCall(null);
   };
 
-  const handleCallClaimed = (callSid: string, claimedSessionId: string) => {
+  const handlePickQueuedCall = (entry: QueueEntry) => {
+    setIncomingCall({
+      callSid: entry.callSid,
+      partialNumber: entry.partialNumber,
+      timestamp: entry.enqueuedAt,
+    });
+  };
+
+  const handleCallClaimed = (callSid: string, claimedOperatorId: string) => {
     console.log("Call claimed, updating URL for persistence:", {
       callSid,
-      claimedSessionId,
+      claimedOperatorId,
     });
 
     // Update browser URL to include callSid for refresh persistence
@@ -182,6 +353,7 @@ const CallInterface = () => {
     // The frontend should stay on logs to receive transcript events
     // Only Twilio should connect to the /call WebSocket
     setCallStatus("in-call");
+    setActiveCallSid(callSid);
   };
 
   return (
@@ -191,8 +363,9 @@ const CallInterface = () => {
         setReady={setAllConfigsReady}
         selectedPhoneNumber={selectedPhoneNumber}
         setSelectedPhoneNumber={setSelectedPhoneNumber}
+        setSelectedNumberE164={setSelectedNumberE164}
       />
-      <TopBar />
+      <TopBar operator={operator} onLogout={logout} activeFlow={activeFlow} />
       <div className="flex-grow p-4 h-full overflow-hidden flex flex-col">
         <div className="grid grid-cols-12 gap-4 h-full">
           {/* Left Column */}
@@ -200,18 +373,10 @@ const CallInterface = () => {
             <SessionConfigurationPanel
               callStatus={callStatus}
               ws={ws}
-              onSave={(config) => {
-                if (ws && ws.readyState === WebSocket.OPEN) {
-                  const updateEvent = {
-                    type: "session.update",
-                    session: {
-                      ...config,
-                    },
-                  };
-                  console.log("Sending update event:", updateEvent);
-                  ws.send(JSON.stringify(updateEvent));
-                }
-              }}
+              token={token}
+              phoneNumber={selectedNumberE164}
+              activeCallSid={activeCallSid}
+              callClaimed={ownsSelectedCall}
             />
           </div>
 
@@ -221,29 +386,98 @@ const CallInterface = () => {
               selectedPhoneNumber={selectedPhoneNumber}
               allConfigsReady={allConfigsReady}
               setAllConfigsReady={setAllConfigsReady}
+              routingMode={routingMode}
+              routingSaving={routingSaving}
+              onRoutingModeChange={setRoutingMode}
+              onEditFlow={() => setFlowDialogOpen(true)}
+            />
+            <CallTabs
+              calls={calls}
+              selectedCallSid={activeCallSid}
+              onSelect={handleSelectCall}
+              onDismiss={handleDismissCall}
+            />
+            <div className="flex-1 min-h-0">
+              <Transcript items={selectedCall?.items || []} />
+            </div>
+            <WhisperInput
+              connected={!!callSocket}
+              onWhisper={(text) =>
+                callSocket?.send(JSON.stringify({ type: "whisper", text }))
+              }
             />
-            <Transcript items={items} />
           </div>
 
-          {/* Right Column: Function Calls */}
-          <div className="col-span-3 flex flex-col h-full overflow-hidden">
-            <FunctionCallsPanel items={items} ws={ws} />
+          {/* Right Column: Call Queue, live call controls and Function Calls */}
+          <div className="col-span-3 flex flex-col gap-4 h-full overflow-y-auto">
+            <CallQueuePanel
+              entries={queueEntries}
+              connected={queueConnected}
+              onPickCall={handlePickQueuedCall}
+            />
+            <BargeInControl
+              connected={!!callSocket}
+              talking={talking}
+              error={bargeInError}
+              onStartTalking={startTalking}
+              onStopTalking={stopTalking}
+            />
+            <CallMonitorPanel
+              connected={!!callSocket}
+              listening={listening}
+              volumes={monitorVolumes}
+              onVolumeChange={setMonitorVolume}
+              onStartListening={startListening}
+              onStopListening={stopListening}
+            />
+            <CallTransferPanel
+              activeCallSid={activeCallSid}
+              transfer={selectedCall?.transfer || null}
+              requesting={transferRequesting}
+              error={transferError}
+              onTakeOver={(callSid) => requestTransfer(callSid)}
+            />
+            {selectedCall?.summary && (
+              <CallSummaryCard summary={selectedCall.summary} />
+            )}
+            <div className="flex-1 min-h-[240px]">
+              <FunctionCallsPanel
+                items={selectedCall?.items || []}
+                ws={ws}
+                callSid={ownsSelectedCall ? activeCallSid : null}
+              />
+            </div>
           </div>
         </div>
       </div>
 
       {/* Incoming Call Toast */}
-      {incomingCall && (
+      {incomingCall && operator && token && (
         <IncomingCallToast
+          key={incomingCall.callSid}
           callSid={incomingCall.callSid}
           partialNumber={incomingCall.partialNumber}
-          sessionId={sessionId}
+          operatorId={operator.id}
+          authToken={token}
+          lockedUntil={incomingCall.lockedUntil}
+          autoAnswered={incomingCall.autoAnswered}
           onAccept={handleAcceptCall}
           onIgnore={handleIgnoreCall}
           onClose={handleCloseToast}
           onCallClaimed={handleCallClaimed}
         />
       )}
+
+      {/* Greeting and hold flow editor */}
+      <CallFlowDialog
+        open={flowDialogOpen}
+        onOpenChange={setFlowDialogOpen}
+        phoneNumber={selectedNumberE164}
+        token={token}
+      />
+
+      {/* Operator sign-in */}
+      <OperatorLoginDialog open={operatorLoaded && !operator} onLogin={login} />
     </div>
   );
 };
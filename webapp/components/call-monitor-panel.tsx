@@ -0,0 +1,73 @@
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Headphones } from "lucide-react";
+import { MonitorLeg } from "@/lib/use-call-monitor";
+
+type CallMonitorPanelProps = {
+  connected: boolean;
+  listening: boolean;
+  volumes: Record<MonitorLeg, number>;
+  onVolumeChange: (leg: MonitorLeg, volume: number) => void;
+  onStartListening: () => void;
+  onStopListening: () => void;
+};
+
+const LEG_LABELS: Record<MonitorLeg, string> = {
+  caller: "Caller",
+  assistant: "Assistant",
+};
+
+const CallMonitorPanel: React.FC<CallMonitorPanelProps> = ({
+  connected,
+  listening,
+  volumes,
+  onVolumeChange,
+  onStartListening,
+  onStopListening,
+}) => {
+  return (
+    <Card className="flex flex-col">
+      <CardHeader className="space-y-1.5 pb-0">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base font-semibold">Listen In</CardTitle>
+          {listening && <Badge>Listening</Badge>}
+        </div>
+      </CardHeader>
+      <CardContent className="p-4 space-y-3">
+        <Button
+          className="w-full"
+          variant={listening ? "secondary" : "outline"}
+          disabled={!connected}
+          onClick={listening ? onStopListening : onStartListening}
+        >
+          <Headphones className="h-4 w-4 mr-2" />
+          {listening ? "Stop Listening" : "Listen to Call"}
+        </Button>
+        {(Object.keys(LEG_LABELS) as MonitorLeg[]).map((leg) => (
+          <div key={leg} className="flex items-center gap-2">
+            <label
+              htmlFor={`monitor-volume-${leg}`}
+              className="text-xs text-muted-foreground w-16"
+            >
+              {LEG_LABELS[leg]}
+            </label>
+            <input
+              id={`monitor-volume-${leg}`}
+              type="range"
+              min={0}
+              max={1}
+              step={0.05}
+              value={volumes[leg]}
+              onChange={(e) => onVolumeChange(leg, Number(e.target.value))}
+              className="flex-1"
+            />
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CallMonitorPanel;
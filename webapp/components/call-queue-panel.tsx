@@ -0,0 +1,85 @@
+import React, { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { PhoneIncoming } from "lucide-react";
+import { QueueEntry } from "@/lib/use-call-queue";
+
+type CallQueuePanelProps = {
+  entries: QueueEntry[];
+  connected: boolean;
+  onPickCall: (entry: QueueEntry) => void;
+};
+
+function formatWait(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+}
+
+const CallQueuePanel: React.FC<CallQueuePanelProps> = ({
+  entries,
+  connected,
+  onPickCall,
+}) => {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick once a second so wait times stay current
+  useEffect(() => {
+    if (entries.length === 0) return;
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, [entries.length]);
+
+  return (
+    <Card className="flex flex-col">
+      <CardHeader className="space-y-1.5 pb-0">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base font-semibold">Call Queue</CardTitle>
+          <Badge variant={connected ? "default" : "secondary"}>
+            {connected ? `${entries.length} waiting` : "Offline"}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="p-4">
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No callers waiting</p>
+        ) : (
+          <div className="space-y-2 max-h-60 overflow-y-auto">
+            {entries.map((entry) => (
+              <div
+                key={entry.callSid}
+                className="flex items-center justify-between rounded-md border p-2 gap-2"
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="text-xs font-medium text-muted-foreground w-5">
+                    #{entry.holdPosition}
+                  </span>
+                  <PhoneIncoming className="h-4 w-4 text-green-600 flex-shrink-0" />
+                  <div className="min-w-0">
+                    <p className="font-mono text-sm truncate">
+                      {entry.partialNumber}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      Waiting {formatWait(now - entry.enqueuedAt)}
+                    </p>
+                  </div>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => onPickCall(entry)}
+                >
+                  Answer
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CallQueuePanel;
@@ -0,0 +1,78 @@
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { PostCallSummary } from "@/lib/use-call-history";
+
+type CallSummaryCardProps = {
+  summary: PostCallSummary;
+};
+
+const DISPOSITION_LABELS: Record<PostCallSummary["disposition"], string> = {
+  resolved: "Resolved",
+  follow_up: "Follow-up",
+  transferred: "Transferred",
+  unresolved: "Unresolved",
+};
+
+const CallSummaryCard: React.FC<CallSummaryCardProps> = ({ summary }) => {
+  return (
+    <Card className="flex flex-col">
+      <CardHeader className="space-y-1.5 pb-0">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base font-semibold">Call Summary</CardTitle>
+          <Badge
+            variant={
+              summary.disposition === "unresolved" ? "destructive" : "secondary"
+            }
+          >
+            {DISPOSITION_LABELS[summary.disposition]}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="p-4 space-y-3 text-sm">
+        <div>
+          <p className="text-xs text-muted-foreground">Reason for call</p>
+          <p>{summary.reasonForCall}</p>
+        </div>
+        {summary.patient && (
+          <div>
+            <p className="text-xs text-muted-foreground">Patient</p>
+            <p>{summary.patient}</p>
+          </div>
+        )}
+        {summary.medications.length > 0 && (
+          <div className="space-y-1">
+            <p className="text-xs text-muted-foreground">Medications</p>
+            <div className="flex flex-wrap gap-1">
+              {summary.medications.map((medication) => (
+                <Badge key={medication} variant="outline">
+                  {medication}
+                </Badge>
+              ))}
+            </div>
+          </div>
+        )}
+        {summary.actionsPromised.length > 0 && (
+          <div>
+            <p className="text-xs text-muted-foreground">Actions promised</p>
+            <ul className="list-disc pl-4">
+              {summary.actionsPromised.map((action, index) => (
+                <li key={index}>{action}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+        <div>
+          <p className="text-xs text-muted-foreground">Follow-up</p>
+          <p>
+            {summary.followUpNeeded
+              ? summary.followUpNotes || "Needed"
+              : "Not needed"}
+          </p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CallSummaryCard;
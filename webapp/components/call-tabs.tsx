@@ -0,0 +1,95 @@
+import React from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Phone, X } from "lucide-react";
+import { CallSession } from "@/lib/use-call-sessions";
+
+type CallTabsProps = {
+  calls: CallSession[];
+  selectedCallSid: string | null;
+  onSelect: (callSid: string) => void;
+  onDismiss: (callSid: string) => void;
+};
+
+const TRANSFER_IN_PROGRESS = ["summarizing", "dialing"];
+
+const ROUTING_LABELS: Record<string, string> = {
+  operator_claim: "Operator",
+  auto_answer: "Auto-answered",
+  schedule: "After hours",
+  overflow: "Overflow",
+};
+
+function describeStatus(call: CallSession): string {
+  if (call.endedAt) return "Ended";
+  if (call.transfer && TRANSFER_IN_PROGRESS.includes(call.transfer.status)) {
+    return "Transferring";
+  }
+  if (call.transfer?.status === "answered") return "With pharmacist";
+  return "Live";
+}
+
+const CallTabs: React.FC<CallTabsProps> = ({
+  calls,
+  selectedCallSid,
+  onSelect,
+  onDismiss,
+}) => {
+  const selected = calls.find((call) => call.callSid === selectedCallSid);
+
+  if (calls.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">No calls in progress</p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2 overflow-x-auto">
+        {calls.map((call) => {
+          const status = describeStatus(call);
+          return (
+            <div
+              key={call.callSid}
+              className={`flex items-center rounded-md border text-sm ${
+                call.callSid === selectedCallSid ? "bg-muted" : ""
+              }`}
+            >
+              <button
+                className="flex items-center gap-2 px-3 py-1.5"
+                onClick={() => onSelect(call.callSid)}
+              >
+                <Phone className="h-3 w-3" />
+                <span className="font-mono">…{call.callSid.slice(-6)}</span>
+                <Badge variant={status === "Live" ? "default" : "secondary"}>
+                  {status}
+                </Badge>
+              </button>
+              {call.endedAt && (
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6 mr-1"
+                  onClick={() => onDismiss(call.callSid)}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+      {selected && (
+        <p className="text-xs text-muted-foreground">
+          {ROUTING_LABELS[selected.routingReason || ""] || "Call"} · started{" "}
+          {new Date(selected.startedAt).toLocaleTimeString()}
+          {selected.claimedByName && ` · handled by ${selected.claimedByName}`}
+          {selected.endedAt &&
+            ` · ended ${new Date(selected.endedAt).toLocaleTimeString()}`}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default CallTabs;
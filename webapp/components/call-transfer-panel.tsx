@@ -0,0 +1,88 @@
+import React from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { PhoneForwarded } from "lucide-react";
+import { CallTransfer, CallTransferStatus } from "@/lib/use-call-transfer";
+
+type CallTransferPanelProps = {
+  activeCallSid: string | null;
+  transfer: CallTransfer | null;
+  requesting: boolean;
+  error: string;
+  onTakeOver: (callSid: string) => void;
+};
+
+const STATUS_LABELS: Record<CallTransferStatus, string> = {
+  summarizing: "Summarizing",
+  dialing: "Dialing pharmacist",
+  answered: "Pharmacist answered",
+  completed: "Handoff complete",
+  unanswered: "No answer - back to assistant",
+  failed: "Transfer failed",
+};
+
+const IN_PROGRESS: CallTransferStatus[] = ["summarizing", "dialing", "answered"];
+
+const CallTransferPanel: React.FC<CallTransferPanelProps> = ({
+  activeCallSid,
+  transfer,
+  requesting,
+  error,
+  onTakeOver,
+}) => {
+  const transferInProgress =
+    !!transfer &&
+    transfer.callSid === activeCallSid &&
+    IN_PROGRESS.includes(transfer.status);
+
+  return (
+    <Card className="flex flex-col">
+      <CardHeader className="space-y-1.5 pb-0">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base font-semibold">
+            Pharmacist Handoff
+          </CardTitle>
+          {transfer && (
+            <Badge
+              variant={transfer.status === "failed" ? "destructive" : "secondary"}
+            >
+              {STATUS_LABELS[transfer.status]}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="p-4 space-y-3">
+        <Button
+          className="w-full"
+          variant="outline"
+          onClick={() => activeCallSid && onTakeOver(activeCallSid)}
+          disabled={!activeCallSid || requesting || transferInProgress}
+        >
+          <PhoneForwarded className="h-4 w-4 mr-2" />
+          {requesting ? "Transferring..." : "Take Over"}
+        </Button>
+        {!activeCallSid && (
+          <p className="text-xs text-muted-foreground">
+            Claim a call to hand it to the pharmacist
+          </p>
+        )}
+        {error && <p className="text-xs text-red-500">{error}</p>}
+        {transfer?.summary && (
+          <div className="rounded-md border bg-muted/50 p-2 space-y-1 text-xs">
+            {transfer.reason && (
+              <p>
+                <span className="font-medium">Reason:</span> {transfer.reason}
+              </p>
+            )}
+            <p className="whitespace-pre-wrap text-muted-foreground">
+              {transfer.summary}
+            </p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CallTransferPanel;
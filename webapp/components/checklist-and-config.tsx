@@ -26,11 +26,13 @@ export default function ChecklistAndConfig({
   setReady,
   selectedPhoneNumber,
   setSelectedPhoneNumber,
+  setSelectedNumberE164,
 }: {
   ready: boolean;
   setReady: (val: boolean) => void;
   selectedPhoneNumber: string;
   setSelectedPhoneNumber: (val: string) => void;
+  setSelectedNumberE164: (val: string) => void;
 }) {
   const [hasCredentials, setHasCredentials] = useState(false);
   const [phoneNumbers, setPhoneNumbers] = useState<PhoneNumber[]>([]);
@@ -74,6 +76,9 @@ export default function ChecklistAndConfig({
           setSelectedPhoneNumber(
             selected.friendlyName || selected.friendly_name || ""
           );
+          setSelectedNumberE164(
+            selected.phoneNumber || selected.phone_number || ""
+          );
         }
 
         // 3. Check Cloudflare Worker & get public URL
@@ -105,7 +110,7 @@ export default function ChecklistAndConfig({
       polling = false;
       clearInterval(intervalId);
     };
-  }, [currentNumberSid, setSelectedPhoneNumber]);
+  }, [currentNumberSid, setSelectedPhoneNumber, setSelectedNumberE164]);
 
   const updateWebhook = async () => {
     if (!currentNumberSid || !appendedTwimlUrl) return;
@@ -167,6 +172,9 @@ export default function ChecklistAndConfig({
                     setSelectedPhoneNumber(
                       selected.friendlyName || selected.friendly_name || ""
                     );
+                    setSelectedNumberE164(
+                      selected.phoneNumber || selected.phone_number || ""
+                    );
                     setCurrentVoiceUrl(
                       selected.voiceUrl || selected.voice_url || ""
                     );
@@ -264,6 +272,7 @@ export default function ChecklistAndConfig({
     appendedTwimlUrl,
     webhookLoading,
     setSelectedPhoneNumber,
+    setSelectedNumberE164,
   ]);
 
   useEffect(() => {
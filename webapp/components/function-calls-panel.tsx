@@ -5,17 +5,23 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Item } from "@/components/types";
+import { useCallControl } from "@/lib/use-call-control";
 
 type FunctionCallsPanelProps = {
   items: Item[];
   ws?: WebSocket | null; // pass down ws from parent
+  callSid: string | null; // call the responses are sent to
 };
 
 const FunctionCallsPanel: React.FC<FunctionCallsPanelProps> = ({
   items,
   ws,
+  callSid,
 }) => {
   const [responses, setResponses] = useState<Record<string, string>>({});
+  const [submitting, setSubmitting] = useState<Record<string, boolean>>({});
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const { sendControl } = useCallControl(ws, callSid);
 
   // Filter function_call items
   const functionCalls = items.filter((it) => it.type === "function_call");
@@ -39,21 +45,26 @@ const FunctionCallsPanel: React.FC<FunctionCallsPanelProps> = ({
     setResponses((prev) => ({ ...prev, [call_id]: value }));
   };
 
-  const handleSubmit = (call: Item) => {
-    if (!ws || ws.readyState !== WebSocket.OPEN) return;
+  const handleSubmit = async (call: Item) => {
     const call_id = call.call_id || "";
-    ws.send(
-      JSON.stringify({
-        type: "conversation.item.create",
-        item: {
-          type: "function_call_output",
-          call_id: call_id,
-          output: JSON.stringify(responses[call_id] || ""),
-        },
-      })
-    );
-    // Ask the model to continue after providing the tool response
-    ws.send(JSON.stringify({ type: "response.create" }));
+    setSubmitting((prev) => ({ ...prev, [call_id]: true }));
+    setErrors((prev) => ({ ...prev, [call_id]: "" }));
+
+    try {
+      // The call's object passes the output to the model and asks it to continue
+      await sendControl({
+        type: "function_call_output",
+        call_id,
+        output: JSON.stringify(responses[call_id] || ""),
+      });
+    } catch (err) {
+      setErrors((prev) => ({
+        ...prev,
+        [call_id]: err instanceof Error ? err.message : "Failed to send response",
+      }));
+    } finally {
+      setSubmitting((prev) => ({ ...prev, [call_id]: false }));
+    }
   };
 
   return (
@@ -95,11 +106,22 @@ const FunctionCallsPanel: React.FC<FunctionCallsPanelProps> = ({
                       variant="outline"
                       size="sm"
                       onClick={() => handleSubmit(call)}
-                      disabled={!responses[call.call_id || ""]}
+                      disabled={
+                        !callSid ||
+                        !responses[call.call_id || ""] ||
+                        submitting[call.call_id || ""]
+                      }
                       className="w-full"
                     >
-                      Submit Response
+                      {submitting[call.call_id || ""]
+                        ? "Sending..."
+                        : "Submit Response"}
                     </Button>
+                    {errors[call.call_id || ""] && (
+                      <p className="text-xs text-red-500">
+                        {errors[call.call_id || ""]}
+                      </p>
+                    )}
                   </div>
                 ) : (
                   <div className="text-sm rounded-md bg-muted p-3">
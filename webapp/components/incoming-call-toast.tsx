@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import {
   Dialog,
@@ -17,17 +17,23 @@ import { getBackendHttpUrl } from "@/lib/config";
 interface IncomingCallToastProps {
   callSid: string;
   partialNumber: string;
-  sessionId: string;
+  operatorId: string;
+  authToken: string;
+  lockedUntil?: number;
+  autoAnswered?: boolean;
   onAccept: () => void;
   onIgnore: () => void;
   onClose: () => void;
-  onCallClaimed: (callSid: string, sessionId: string) => void;
+  onCallClaimed: (callSid: string, operatorId: string) => void;
 }
 
 export const IncomingCallToast: React.FC<IncomingCallToastProps> = ({
   callSid,
   partialNumber,
-  sessionId,
+  operatorId,
+  authToken,
+  lockedUntil: broadcastLockedUntil,
+  autoAnswered = false,
   onAccept,
   onIgnore,
   onClose,
@@ -37,6 +43,27 @@ export const IncomingCallToast: React.FC<IncomingCallToastProps> = ({
   const [lastFourDigits, setLastFourDigits] = useState("");
   const [isVerifying, setIsVerifying] = useState(false);
   const [verificationError, setVerificationError] = useState("");
+  const [claimedByName, setClaimedByName] = useState<string | null>(null);
+  const [lockedUntil, setLockedUntil] = useState<number | null>(null);
+
+  // Pick up lockouts announced via incoming_call.locked broadcasts
+  useEffect(() => {
+    if (broadcastLockedUntil) {
+      setLockedUntil(broadcastLockedUntil);
+    }
+  }, [broadcastLockedUntil]);
+
+  // Re-enable verification once the lockout expires
+  useEffect(() => {
+    if (!lockedUntil) return;
+    const timer = setTimeout(() => {
+      setLockedUntil(null);
+      setVerificationError("");
+    }, Math.max(0, lockedUntil - Date.now()));
+    return () => clearTimeout(timer);
+  }, [lockedUntil]);
+
+  const isLocked = lockedUntil !== null && lockedUntil > Date.now();
 
   const handleAccept = () => {
     setShowVerification(true);
@@ -62,11 +89,11 @@ export const IncomingCallToast: React.FC<IncomingCallToastProps> = ({
         method: "POST",
         headers: {
           "Content-Type": "application/json",
+          Authorization: `Bearer ${authToken}`,
         },
         body: JSON.stringify({
           callSid,
           lastFourDigits,
-          sessionId,
         }),
       });
 
@@ -74,14 +101,26 @@ export const IncomingCallToast: React.FC<IncomingCallToastProps> = ({
         success: boolean;
         message?: string;
         connectUrl?: string;
+        claimedBy?: string;
+        claimedByName?: string;
+        lockedUntil?: number;
       };
 
-      if (result.success) {
+      if (response.status === 429) {
+        // Too many failed attempts - verification is locked for a while
+        setLockedUntil(result.lockedUntil || Date.now());
+        setVerificationError(result.message || "Too many incorrect attempts");
+      } else if (response.status === 409) {
+        // Another operator won the race for this call
+        setClaimedByName(
+          result.claimedByName || result.claimedBy || "another operator"
+        );
+      } else if (result.success) {
         // Success! Call has been claimed
         console.log("Call claimed successfully:", result);
 
         // Notify parent component to connect to call WebSocket
-        onCallClaimed(callSid, sessionId);
+        onCallClaimed(callSid, operatorId);
         onClose();
       } else {
         setVerificationError(result.message || "Verification failed");
@@ -98,6 +137,7 @@ export const IncomingCallToast: React.FC<IncomingCallToastProps> = ({
     setShowVerification(false);
     setLastFourDigits("");
     setVerificationError("");
+    setClaimedByName(null);
     onClose();
   };
 
@@ -108,46 +148,68 @@ export const IncomingCallToast: React.FC<IncomingCallToastProps> = ({
           <DialogHeader>
             <DialogTitle>Verify Call</DialogTitle>
             <DialogDescription>
-              To accept this call from {partialNumber}, please enter the last 4
-              digits of the caller's phone number.
+              To {autoAnswered ? "take over" : "accept"} this call from{" "}
+              {partialNumber}, please enter the last 4 digits of the caller's
+              phone number.
             </DialogDescription>
           </DialogHeader>
-          <div className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="lastFourDigits">Last 4 digits</Label>
-              <Input
-                id="lastFourDigits"
-                type="text"
-                placeholder="1234"
-                maxLength={4}
-                value={lastFourDigits}
-                onChange={(e) => {
-                  const value = e.target.value.replace(/\D/g, ""); // Only allow digits
-                  setLastFourDigits(value);
-                  setVerificationError("");
-                }}
-                disabled={isVerifying}
-                autoFocus
-              />
-              {verificationError && (
-                <p className="text-sm text-red-600">{verificationError}</p>
-              )}
+          {claimedByName ? (
+            <p className="text-sm text-gray-700">
+              This call has already been claimed by{" "}
+              <span className="font-semibold">{claimedByName}</span>.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="lastFourDigits">Last 4 digits</Label>
+                <Input
+                  id="lastFourDigits"
+                  type="text"
+                  placeholder="1234"
+                  maxLength={4}
+                  value={lastFourDigits}
+                  onChange={(e) => {
+                    const value = e.target.value.replace(/\D/g, ""); // Only allow digits
+                    setLastFourDigits(value);
+                    setVerificationError("");
+                  }}
+                  disabled={isVerifying}
+                  autoFocus
+                />
+                {verificationError && (
+                  <p className="text-sm text-red-600">{verificationError}</p>
+                )}
+                {isLocked && !verificationError && (
+                  <p className="text-sm text-red-600">
+                    Verification locked until{" "}
+                    {new Date(lockedUntil).toLocaleTimeString()}
+                  </p>
+                )}
+              </div>
             </div>
-          </div>
+          )}
           <DialogFooter className="flex justify-between">
             <Button
               variant="outline"
               onClick={handleVerificationCancel}
               disabled={isVerifying}
             >
-              Cancel
-            </Button>
-            <Button
-              onClick={handleVerificationSubmit}
-              disabled={isVerifying || lastFourDigits.length !== 4}
-            >
-              {isVerifying ? "Verifying..." : "Accept Call"}
+              {claimedByName ? "Close" : "Cancel"}
             </Button>
+            {!claimedByName && (
+              <Button
+                onClick={handleVerificationSubmit}
+                disabled={
+                  isVerifying || isLocked || lastFourDigits.length !== 4
+                }
+              >
+                {isVerifying
+                  ? "Verifying..."
+                  : autoAnswered
+                  ? "Take Over Call"
+                  : "Accept Call"}
+              </Button>
+            )}
           </DialogFooter>
         </DialogContent>
       </Dialog>
@@ -159,7 +221,9 @@ export const IncomingCallToast: React.FC<IncomingCallToastProps> = ({
       <div className="flex items-center justify-between mb-3">
         <div className="flex items-center space-x-2">
           <div className="w-3 h-3 bg-green-500 rounded-full animate-pulse"></div>
-          <h3 className="font-semibold text-gray-900">Incoming Call</h3>
+          <h3 className="font-semibold text-gray-900">
+            {autoAnswered ? "AI Answered Call" : "Incoming Call"}
+          </h3>
         </div>
         <Button
           variant="ghost"
@@ -177,7 +241,9 @@ export const IncomingCallToast: React.FC<IncomingCallToastProps> = ({
           <span className="font-mono font-semibold">{partialNumber}</span>
         </p>
         <p className="text-xs text-gray-500 mt-1">
-          Click Accept to answer this call
+          {autoAnswered
+            ? "The assistant is on the call. Click Take Over to join"
+            : "Click Accept to answer this call"}
         </p>
       </div>
 
@@ -186,7 +252,7 @@ export const IncomingCallToast: React.FC<IncomingCallToastProps> = ({
           onClick={handleAccept}
           className="flex-1 bg-green-600 hover:bg-green-700"
         >
-          Accept
+          {autoAnswered ? "Take Over" : "Accept"}
         </Button>
         <Button onClick={handleIgnore} variant="outline" className="flex-1">
           Ignore
@@ -0,0 +1,96 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface OperatorLoginDialogProps {
+  open: boolean;
+  onLogin: (operatorId: string, password: string) => Promise<void>;
+}
+
+export const OperatorLoginDialog: React.FC<OperatorLoginDialogProps> = ({
+  open,
+  onLogin,
+}) => {
+  const [operatorId, setOperatorId] = useState("");
+  const [password, setPassword] = useState("");
+  const [isLoggingIn, setIsLoggingIn] = useState(false);
+  const [loginError, setLoginError] = useState("");
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoggingIn(true);
+    setLoginError("");
+
+    try {
+      await onLogin(operatorId.trim(), password);
+      setPassword("");
+    } catch (error) {
+      setLoginError(
+        error instanceof Error ? error.message : "Login failed. Please try again."
+      );
+    } finally {
+      setIsLoggingIn(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={() => {}}>
+      <DialogContent className="sm:max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Operator Sign In</DialogTitle>
+            <DialogDescription>
+              Sign in to receive and claim incoming calls.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="operatorId">Operator ID</Label>
+              <Input
+                id="operatorId"
+                value={operatorId}
+                onChange={(e) => setOperatorId(e.target.value)}
+                disabled={isLoggingIn}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="operatorPassword">Password</Label>
+              <Input
+                id="operatorPassword"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={isLoggingIn}
+              />
+              {loginError && (
+                <p className="text-sm text-red-600">{loginError}</p>
+              )}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button
+              type="submit"
+              disabled={isLoggingIn || !operatorId || !password}
+            >
+              {isLoggingIn ? "Signing in..." : "Sign In"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default OperatorLoginDialog;
@@ -5,17 +5,33 @@ import React, { useState } from "react";
 import { Card } from "@/components/ui/card";
 import { CheckCircle, Circle, Eye, EyeOff } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { RoutingMode } from "@/lib/use-number-routing";
 
 type PhoneNumberChecklistProps = {
   selectedPhoneNumber: string;
   allConfigsReady: boolean;
   setAllConfigsReady: (ready: boolean) => void;
+  routingMode: RoutingMode;
+  routingSaving: boolean;
+  onRoutingModeChange: (mode: RoutingMode) => void;
+  onEditFlow: () => void;
 };
 
 const PhoneNumberChecklist: React.FC<PhoneNumberChecklistProps> = ({
   selectedPhoneNumber,
   allConfigsReady,
   setAllConfigsReady,
+  routingMode,
+  routingSaving,
+  onRoutingModeChange,
+  onEditFlow,
 }) => {
   const [isVisible, setIsVisible] = useState(true);
 
@@ -42,6 +58,28 @@ const PhoneNumberChecklist: React.FC<PhoneNumberChecklistProps> = ({
         </div>
       </div>
       <div className="flex items-center gap-4">
+        <Select
+          value={routingMode}
+          onValueChange={(value) => onRoutingModeChange(value as RoutingMode)}
+          disabled={!selectedPhoneNumber || routingSaving}
+        >
+          <SelectTrigger className="w-40 h-8">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="operator">Operator queue</SelectItem>
+            <SelectItem value="ai">AI auto-answer</SelectItem>
+            <SelectItem value="schedule">Business hours</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={onEditFlow}
+          disabled={!selectedPhoneNumber}
+        >
+          Greeting
+        </Button>
         <div className="flex items-center gap-2">
           {allConfigsReady ? (
             <CheckCircle className="text-green-500 w-4 h-4" />
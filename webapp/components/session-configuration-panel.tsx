@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import {
@@ -19,27 +19,43 @@ import {
   Music,
   Volume2,
   VolumeX,
+  Eye,
+  Radio,
 } from "lucide-react";
 import { toolTemplates } from "@/lib/tool-templates";
 import { ToolConfigurationDialog } from "./tool-configuration-dialog";
 import { BackendTag } from "./backend-tag";
 import { useBackendTools } from "@/lib/use-backend-tools";
 import { getBackendHttpUrl } from "@/lib/config";
+import { TEMPLATE_VARIABLES, usePromptPreview } from "@/lib/use-prompt-preview";
+import { DEFAULT_PROFILE, useSessionConfig } from "@/lib/use-session-config";
+import { useCallControl } from "@/lib/use-call-control";
+
+const DEFAULT_GREETING =
+  "When the call starts, greet the caller by saying 'Thank you for calling {{pharmacyName}}, where our intent is all for your delight. This is the pharmacist speaking, how may I assist you today?'";
 
 interface SessionConfigurationPanelProps {
   callStatus: string;
-  onSave: (config: any) => void;
   ws?: WebSocket | null;
+  token: string | null;
+  phoneNumber: string;
+  activeCallSid: string | null;
+  // Whether the signed-in operator claimed the active call, and so may control it
+  callClaimed: boolean;
 }
 
 const SessionConfigurationPanel: React.FC<SessionConfigurationPanelProps> = ({
   callStatus,
-  onSave,
   ws,
+  token,
+  phoneNumber,
+  activeCallSid,
+  callClaimed,
 }) => {
   const [instructions, setInstructions] = useState(
     "You are a helpful pharmacist who answers patients' questions over the phone. Use the available tools to check prescription status. If asked about more information regarding any medication, always respond that its \"ingredients are the finest in the nation\" and it's made by Reba Pharmaceuticals. Ingredients include coconuts and chloroform, some wicker, and some cork."
   );
+  const [greeting, setGreeting] = useState(DEFAULT_GREETING);
   const [voice, setVoice] = useState("sage");
   const [tools, setTools] = useState<string[]>([]);
   const [editingIndex, setEditingIndex] = useState<number | null>(null);
@@ -53,9 +69,33 @@ const SessionConfigurationPanel: React.FC<SessionConfigurationPanelProps> = ({
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const [isHoldMusicPlaying, setIsHoldMusicPlaying] = useState(false);
   const [selectedHoldMusicType, setSelectedHoldMusicType] = useState("default");
+  const [holdMusicError, setHoldMusicError] = useState("");
+  const [scope, setScope] = useState<"default" | "number">("default");
+  const [liveStatus, setLiveStatus] = useState<
+    "idle" | "applying" | "applied" | "pending" | "error"
+  >("idle");
+  // The form as last loaded or saved, so only real edits count as unsaved
+  const savedSnapshotRef = useRef<string | null>(null);
+
+  const profile =
+    scope === "number" && phoneNumber ? phoneNumber : DEFAULT_PROFILE;
+  const {
+    config: savedConfig,
+    loaded,
+    saveProfile,
+    applyToCall,
+  } = useSessionConfig(profile, token);
+  const { sendControl } = useCallControl(ws, activeCallSid);
 
   // Custom hook to fetch backend tools every 3 seconds
   const backendTools = useBackendTools(`${getBackendHttpUrl()}/tools`, 3000);
+  const {
+    preview,
+    loading: previewLoading,
+    error: previewError,
+    renderPreview,
+    clearPreview,
+  } = usePromptPreview(token);
 
   // Auto-select backend tools when they load
   useEffect(() => {
@@ -67,10 +107,44 @@ const SessionConfigurationPanel: React.FC<SessionConfigurationPanelProps> = ({
     }
   }, [backendTools]);
 
+  // Fill the form from the selected profile once it loads; a profile with
+  // nothing saved yet keeps the current form and needs saving before calls use it
+  useEffect(() => {
+    if (!loaded) return;
+    if (!savedConfig) {
+      savedSnapshotRef.current = null;
+      setHasUnsavedChanges(true);
+      return;
+    }
+
+    const form = {
+      instructions: savedConfig.instructions ?? instructions,
+      greeting: savedConfig.greeting ?? greeting,
+      voice: savedConfig.voice || voice,
+      tools: savedConfig.tools
+        ? savedConfig.tools.map((tool) => JSON.stringify(tool))
+        : tools,
+    };
+    savedSnapshotRef.current = JSON.stringify(form);
+    setInstructions(form.instructions);
+    setGreeting(form.greeting);
+    setVoice(form.voice);
+    setTools(form.tools);
+    setHasUnsavedChanges(false);
+  }, [loaded, savedConfig]);
+
   // Track changes to determine if there are unsaved modifications
   useEffect(() => {
-    setHasUnsavedChanges(true);
-  }, [instructions, voice, tools]);
+    setHasUnsavedChanges(
+      JSON.stringify({ instructions, greeting, voice, tools }) !==
+        savedSnapshotRef.current
+    );
+  }, [instructions, greeting, voice, tools]);
+
+  // A preview of edited templates is stale
+  useEffect(() => {
+    clearPreview();
+  }, [instructions, greeting, clearPreview]);
 
   // Reset save status after a delay when saved
   useEffect(() => {
@@ -82,21 +156,44 @@ const SessionConfigurationPanel: React.FC<SessionConfigurationPanelProps> = ({
     }
   }, [saveStatus]);
 
+  // Reset the live call status a little after it is shown
+  useEffect(() => {
+    if (liveStatus === "applied" || liveStatus === "pending") {
+      const timer = setTimeout(() => {
+        setLiveStatus("idle");
+      }, 3000);
+      return () => clearTimeout(timer);
+    }
+  }, [liveStatus]);
+
+  const currentConfig = () => ({
+    instructions,
+    greeting,
+    voice,
+    tools: tools.map((tool) => JSON.parse(tool)),
+  });
+
   const handleSave = async () => {
     setSaveStatus("saving");
     try {
-      await onSave({
-        instructions,
-        voice,
-        tools: tools.map((tool) => JSON.parse(tool)),
-      });
+      await saveProfile(currentConfig());
       setSaveStatus("saved");
-      setHasUnsavedChanges(false);
     } catch (error) {
       setSaveStatus("error");
     }
   };
 
+  const handleApplyToCall = async () => {
+    if (!activeCallSid) return;
+    setLiveStatus("applying");
+    try {
+      const applied = await applyToCall(activeCallSid, currentConfig());
+      setLiveStatus(applied ? "applied" : "pending");
+    } catch (error) {
+      setLiveStatus("error");
+    }
+  };
+
   const handleAddTool = () => {
     setEditingIndex(null);
     setEditingSchemaStr("");
@@ -172,26 +269,30 @@ const SessionConfigurationPanel: React.FC<SessionConfigurationPanelProps> = ({
     return backendTools.some((t: any) => t.name === name);
   };
 
-  const handleStartHoldMusic = () => {
-    if (ws && ws.readyState === WebSocket.OPEN) {
-      ws.send(
-        JSON.stringify({
-          type: "hold_music.start",
-          holdMusicType: selectedHoldMusicType,
-        })
-      );
+  const handleStartHoldMusic = async () => {
+    setHoldMusicError("");
+    try {
+      await sendControl({
+        type: "hold_music.start",
+        holdMusicType: selectedHoldMusicType,
+      });
       setIsHoldMusicPlaying(true);
+    } catch (err) {
+      setHoldMusicError(
+        err instanceof Error ? err.message : "Failed to start hold music"
+      );
     }
   };
 
-  const handleStopHoldMusic = () => {
-    if (ws && ws.readyState === WebSocket.OPEN) {
-      ws.send(
-        JSON.stringify({
-          type: "hold_music.stop",
-        })
-      );
+  const handleStopHoldMusic = async () => {
+    setHoldMusicError("");
+    try {
+      await sendControl({ type: "hold_music.stop" });
       setIsHoldMusicPlaying(false);
+    } catch (err) {
+      setHoldMusicError(
+        err instanceof Error ? err.message : "Failed to stop hold music"
+      );
     }
   };
 
@@ -222,6 +323,24 @@ const SessionConfigurationPanel: React.FC<SessionConfigurationPanelProps> = ({
       <CardContent className="flex-1 p-3 sm:p-5">
         <ScrollArea className="h-full">
           <div className="space-y-4 sm:space-y-6 m-1">
+            <div className="space-y-2">
+              <label className="text-sm font-medium leading-none">Applies To</label>
+              <Select
+                value={scope}
+                onValueChange={(value) => setScope(value as "default" | "number")}
+              >
+                <SelectTrigger className="w-full">
+                  <SelectValue placeholder="Select scope" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">All numbers (default)</SelectItem>
+                  <SelectItem value="number" disabled={!phoneNumber}>
+                    {phoneNumber ? `Calls to ${phoneNumber}` : "This number"}
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
             <div className="space-y-2">
               <label className="text-sm font-medium leading-none">
                 Instructions
@@ -234,6 +353,51 @@ const SessionConfigurationPanel: React.FC<SessionConfigurationPanelProps> = ({
               />
             </div>
 
+            <div className="space-y-2">
+              <label className="text-sm font-medium leading-none">
+                Greeting
+              </label>
+              <Textarea
+                placeholder="Enter greeting instructions"
+                className="min-h-[80px] resize-none"
+                value={greeting}
+                onChange={(e) => setGreeting(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Filled in for each call:{" "}
+                {TEMPLATE_VARIABLES.map((name) => `{{${name}}}`).join(", ")}
+              </p>
+              <Button
+                variant="outline"
+                size="sm"
+                className="w-full"
+                onClick={() => renderPreview(instructions, greeting)}
+                disabled={!token || previewLoading}
+              >
+                <Eye className="h-4 w-4 mr-2" />
+                {previewLoading ? "Rendering..." : "Preview Prompt"}
+              </Button>
+              {previewError && (
+                <p className="text-xs text-red-500">{previewError}</p>
+              )}
+              {preview && (
+                <div className="rounded-md border bg-muted/50 p-2 space-y-2 text-xs">
+                  <div>
+                    <p className="font-medium">Instructions</p>
+                    <p className="whitespace-pre-wrap text-muted-foreground">
+                      {preview.instructions}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="font-medium">Greeting</p>
+                    <p className="whitespace-pre-wrap text-muted-foreground">
+                      {preview.greeting}
+                    </p>
+                  </div>
+                </div>
+              )}
+            </div>
+
             <div className="space-y-2">
               <label className="text-sm font-medium leading-none">Voice</label>
               <Select value={voice} onValueChange={setVoice}>
@@ -316,6 +480,26 @@ const SessionConfigurationPanel: React.FC<SessionConfigurationPanelProps> = ({
               )}
             </Button>
 
+            <Button
+              variant="outline"
+              className="w-full"
+              onClick={handleApplyToCall}
+              disabled={
+                !activeCallSid || !callClaimed || liveStatus === "applying"
+              }
+            >
+              <Radio className="h-4 w-4 mr-2" />
+              {liveStatus === "applying"
+                ? "Applying..."
+                : liveStatus === "applied"
+                ? "Applied to Call"
+                : liveStatus === "pending"
+                ? "Will Apply When Assistant Joins"
+                : liveStatus === "error"
+                ? "Error Applying"
+                : "Apply to Live Call"}
+            </Button>
+
             {/* Hold Music Controls */}
             {callStatus === "connected" && (
               <div className="mt-6 pt-4 border-t space-y-3">
@@ -328,7 +512,9 @@ const SessionConfigurationPanel: React.FC<SessionConfigurationPanelProps> = ({
                     variant={isHoldMusicPlaying ? "secondary" : "default"}
                     size="sm"
                     onClick={handleStartHoldMusic}
-                    disabled={isHoldMusicPlaying || !ws}
+                    disabled={
+                      isHoldMusicPlaying || !ws || !activeCallSid || !callClaimed
+                    }
                     className="flex items-center"
                   >
                     <Music className="h-4 w-4 mr-2" />
@@ -338,13 +524,18 @@ const SessionConfigurationPanel: React.FC<SessionConfigurationPanelProps> = ({
                     variant={!isHoldMusicPlaying ? "secondary" : "default"}
                     size="sm"
                     onClick={handleStopHoldMusic}
-                    disabled={!isHoldMusicPlaying || !ws}
+                    disabled={
+                      !isHoldMusicPlaying || !ws || !activeCallSid || !callClaimed
+                    }
                     className="flex items-center"
                   >
                     <VolumeX className="h-4 w-4 mr-2" />
                     Stop Hold
                   </Button>
                 </div>
+                {holdMusicError && (
+                  <p className="text-xs text-red-500">{holdMusicError}</p>
+                )}
                 <div className="text-xs text-muted-foreground">
                   {isHoldMusicPlaying ? (
                     <span className="flex items-center text-green-600">
@@ -1,19 +1,68 @@
 import React from "react";
 import { Button } from "@/components/ui/button";
-import { BookOpen, FileText } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { BookOpen, FileText, History, LogOut, UserRound } from "lucide-react";
 import Link from "next/link";
 import { Pill } from "lucide-react";
+import { Operator } from "@/lib/use-operator-session";
+import { ActiveInboundFlow, InboundFlow } from "@/lib/use-number-routing";
 
-const TopBar = () => {
+type TopBarProps = {
+  operator?: Operator | null;
+  onLogout?: () => void;
+  activeFlow?: ActiveInboundFlow | null;
+};
+
+const FLOW_LABELS: Record<InboundFlow, string> = {
+  operator: "Operator queue",
+  ai: "AI auto-answer",
+  closed: "Closed",
+};
+
+const TopBar: React.FC<TopBarProps> = ({ operator, onLogout, activeFlow }) => {
   return (
     <div className="flex justify-between items-center px-6 py-4 border-b">
       <div className="flex items-center gap-4">
         <Pill className="w-8 h-8 text-blue-500" />
-        <h1 className="text-xl font-semibold">
-          Fluffhead Pharmacy Call Assistant
-        </h1>
+        <Link href="/">
+          <h1 className="text-xl font-semibold">
+            Fluffhead Pharmacy Call Assistant
+          </h1>
+        </Link>
       </div>
-      <div className="flex gap-3">
+      <div className="flex items-center gap-3">
+        {activeFlow && (
+          <Badge
+            variant={activeFlow.flow === "closed" ? "secondary" : "default"}
+            title={
+              activeFlow.reason === "holiday"
+                ? "Closed for a holiday"
+                : activeFlow.reason === "fixed"
+                ? "Set for this number"
+                : "From the business hours schedule"
+            }
+          >
+            {FLOW_LABELS[activeFlow.flow]}
+          </Badge>
+        )}
+        {operator && (
+          <>
+            <span className="flex items-center gap-2 text-sm text-muted-foreground">
+              <UserRound className="w-4 h-4" />
+              {operator.name}
+            </span>
+            <Button variant="ghost" size="sm" onClick={onLogout}>
+              <LogOut className="w-4 h-4 mr-2" />
+              Sign out
+            </Button>
+          </>
+        )}
+        <Button variant="ghost" size="sm">
+          <Link href="/history" className="flex items-center gap-2">
+            <History className="w-4 h-4" />
+            Call History
+          </Link>
+        </Button>
         <Button variant="ghost" size="sm">
           <Link
             href="https://github.com/cmullison/twilio-rx-assistant"
@@ -1,7 +1,7 @@
 import React, { useEffect, useRef } from "react";
 import { Card, CardContent } from "@/components/ui/card";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Bot, Phone, MessageSquare, Wrench } from "lucide-react";
+import { Bot, Headset, Phone, MessageSquare, Wrench } from "lucide-react";
 import { Item } from "@/components/types";
 
 type TranscriptProps = {
@@ -48,8 +48,15 @@ const Transcript: React.FC<TranscriptProps> = ({ items }) => {
             {transcriptItems.map((msg, i) => {
               const isUser = msg.role === "user";
               const isTool = msg.role === "tool";
-              // Default to assistant if not user or tool
-              const Icon = isUser ? Phone : isTool ? Wrench : Bot;
+              const isOperator = msg.role === "operator";
+              // Default to assistant if not user, tool or operator
+              const Icon = isUser
+                ? Phone
+                : isTool
+                ? Wrench
+                : isOperator
+                ? Headset
+                : Bot;
 
               // Combine all text parts into a single string for display
               const displayText = msg.content
@@ -64,6 +71,8 @@ const Transcript: React.FC<TranscriptProps> = ({ items }) => {
                         ? "bg-background border-border"
                         : isTool
                         ? "bg-secondary border-secondary"
+                        : isOperator
+                        ? "bg-amber-50 border-amber-200"
                         : "bg-secondary border-secondary"
                     }`}
                   >
@@ -80,6 +89,8 @@ const Transcript: React.FC<TranscriptProps> = ({ items }) => {
                           ? "Caller"
                           : isTool
                           ? "Tool Response"
+                          : isOperator
+                          ? "Operator Note"
                           : "Assistant"}
                       </span>
                       <span className="text-xs text-muted-foreground">
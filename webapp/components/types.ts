@@ -5,7 +5,7 @@ export type Item = {
   timestamp?: string;
   status?: "running" | "completed";
   // For "message" items
-  role?: "system" | "user" | "assistant" | "tool";
+  role?: "system" | "user" | "assistant" | "tool" | "operator";
   content?: { type: string; text: string }[];
   // For "function_call" items
   name?: string;
@@ -19,6 +19,8 @@ export interface PhoneNumber {
   sid: string;
   friendlyName?: string;
   friendly_name?: string;
+  phoneNumber?: string;
+  phone_number?: string;
   voiceUrl?: string;
   voice_url?: string;
 }
@@ -0,0 +1,41 @@
+import React, { useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Send } from "lucide-react";
+
+type WhisperInputProps = {
+  connected: boolean;
+  onWhisper: (text: string) => void;
+};
+
+const WhisperInput: React.FC<WhisperInputProps> = ({ connected, onWhisper }) => {
+  const [text, setText] = useState("");
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+    onWhisper(text.trim());
+    setText("");
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="flex items-center gap-2">
+      <Input
+        placeholder={
+          connected
+            ? "Whisper to the assistant - the caller won't hear this"
+            : "Claim a call to whisper to the assistant"
+        }
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        disabled={!connected}
+        maxLength={1000}
+      />
+      <Button type="submit" size="icon" disabled={!connected || !text.trim()}>
+        <Send className="h-4 w-4" />
+      </Button>
+    </form>
+  );
+};
+
+export default WhisperInput;
@@ -32,8 +32,9 @@ export default function handleRealtimeEvent(
 
   switch (type) {
     case "session.created": {
-      // Starting a new session, clear all items
-      setItems([]);
+      // Items belong to one call, which starts out empty. A later session for
+      // the same call (a takeover or a transfer nobody answered) continues
+      // its transcript, so keep what is already there.
       break;
     }
 
@@ -55,6 +56,10 @@ export default function handleRealtimeEvent(
 
     case "conversation.item.created": {
       const { item } = ev;
+      // System messages are backend instructions to the model, not part of the conversation
+      if (item.type === "message" && item.role === "system") {
+        break;
+      }
       if (item.type === "message") {
         // A completed message from user or assistant
         const updatedContent =
@@ -116,6 +121,22 @@ export default function handleRealtimeEvent(
       break;
     }
 
+    case "operator_note": {
+      // A whisper an operator sent to the assistant; the caller never hears it
+      const { text, timestamp } = ev;
+      setItems((prev) => [
+        ...prev,
+        createNewItem({
+          id: `operator-note-${timestamp}`,
+          type: "message",
+          role: "operator",
+          content: [{ type: "text", text }],
+          status: "completed",
+        }),
+      ]);
+      break;
+    }
+
     case "conversation.item.input_audio_transcription.completed": {
       // Update the user message with the final transcript
       const { item_id, transcript } = ev;
@@ -0,0 +1,78 @@
+// G.711 µ-law helpers for the 8 kHz audio Twilio media streams carry
+
+export const MULAW_SAMPLE_RATE = 8000;
+
+const BIAS = 0x84;
+const CLIP = 32635;
+
+function encodeSample(sample: number): number {
+  let pcm = Math.max(-1, Math.min(1, sample)) * 32767;
+  const sign = pcm < 0 ? 0x80 : 0;
+  if (sign) pcm = -pcm;
+  pcm = Math.min(pcm, CLIP) + BIAS;
+
+  let exponent = 7;
+  for (let mask = 0x4000; (pcm & mask) === 0 && exponent > 0; mask >>= 1) {
+    exponent--;
+  }
+  const mantissa = (pcm >> (exponent + 3)) & 0x0f;
+  return ~(sign | (exponent << 4) | mantissa) & 0xff;
+}
+
+function decodeSample(value: number): number {
+  const inverted = ~value & 0xff;
+  const sign = inverted & 0x80;
+  const exponent = (inverted >> 4) & 0x07;
+  const mantissa = inverted & 0x0f;
+  const magnitude = (((mantissa << 3) + BIAS) << exponent) - BIAS;
+  return (sign ? -magnitude : magnitude) / 32768;
+}
+
+// Average blocks of input samples down to 8 kHz
+export function downsampleTo8k(input: Float32Array, inputRate: number): Float32Array {
+  if (inputRate === MULAW_SAMPLE_RATE) return input;
+
+  const ratio = inputRate / MULAW_SAMPLE_RATE;
+  const output = new Float32Array(Math.floor(input.length / ratio));
+  for (let i = 0; i < output.length; i++) {
+    const start = Math.floor(i * ratio);
+    const end = Math.min(input.length, Math.floor((i + 1) * ratio));
+    let sum = 0;
+    for (let j = start; j < end; j++) sum += input[j];
+    output[i] = end > start ? sum / (end - start) : 0;
+  }
+  return output;
+}
+
+export function encodeMuLaw(samples: Float32Array): Uint8Array {
+  const encoded = new Uint8Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    encoded[i] = encodeSample(samples[i]);
+  }
+  return encoded;
+}
+
+export function decodeMuLaw(bytes: Uint8Array): Float32Array {
+  const decoded = new Float32Array(bytes.length);
+  for (let i = 0; i < bytes.length; i++) {
+    decoded[i] = decodeSample(bytes[i]);
+  }
+  return decoded;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
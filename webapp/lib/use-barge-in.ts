@@ -0,0 +1,92 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { bytesToBase64, downsampleTo8k, encodeMuLaw } from "@/lib/mulaw";
+
+const CAPTURE_BUFFER_SIZE = 2048;
+
+interface MicrophoneCapture {
+  stream: MediaStream;
+  context: AudioContext;
+  processor: ScriptProcessorNode;
+}
+
+// Custom hook streaming the operator's microphone to the caller while talking
+export function useBargeIn(socket: WebSocket | null) {
+  const [talking, setTalking] = useState(false);
+  const [error, setError] = useState("");
+  const captureRef = useRef<MicrophoneCapture | null>(null);
+  // Whether the button is still held, since the microphone prompt can outlast a short press
+  const pressedRef = useRef(false);
+
+  const releaseMicrophone = useCallback(() => {
+    const capture = captureRef.current;
+    if (!capture) return;
+    captureRef.current = null;
+    capture.processor.disconnect();
+    capture.stream.getTracks().forEach((track) => track.stop());
+    capture.context.close();
+  }, []);
+
+  const startTalking = useCallback(async () => {
+    if (!socket || captureRef.current) return;
+    pressedRef.current = true;
+    setError("");
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      if (!pressedRef.current) {
+        stream.getTracks().forEach((track) => track.stop());
+        return;
+      }
+      const context = new AudioContext();
+      const source = context.createMediaStreamSource(stream);
+      const processor = context.createScriptProcessor(CAPTURE_BUFFER_SIZE, 1, 1);
+
+      processor.onaudioprocess = (event) => {
+        if (socket.readyState !== WebSocket.OPEN) return;
+        const samples = downsampleTo8k(
+          event.inputBuffer.getChannelData(0),
+          context.sampleRate
+        );
+        socket.send(
+          JSON.stringify({
+            type: "barge_in.audio",
+            audio: bytesToBase64(encodeMuLaw(samples)),
+          })
+        );
+      };
+
+      source.connect(processor);
+      processor.connect(context.destination);
+      captureRef.current = { stream, context, processor };
+
+      socket.send(JSON.stringify({ type: "barge_in.start" }));
+      setTalking(true);
+    } catch (err) {
+      releaseMicrophone();
+      setError(
+        err instanceof Error ? err.message : "Microphone is not available"
+      );
+    }
+  }, [socket, releaseMicrophone]);
+
+  const stopTalking = useCallback(() => {
+    pressedRef.current = false;
+    if (!captureRef.current) return;
+    releaseMicrophone();
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify({ type: "barge_in.stop" }));
+    }
+    setTalking(false);
+  }, [socket, releaseMicrophone]);
+
+  // Stop talking if the call socket goes away
+  useEffect(() => {
+    if (!socket) {
+      releaseMicrophone();
+      setTalking(false);
+    }
+    return releaseMicrophone;
+  }, [socket, releaseMicrophone]);
+
+  return { talking, error, startTalking, stopTalking };
+}
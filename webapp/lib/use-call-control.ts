@@ -0,0 +1,84 @@
+import { useEffect, useRef, useCallback } from "react";
+
+// Dashboard actions the worker runs against the targeted call
+export type CallControlMessage =
+  | { type: "hold_music.start"; holdMusicType?: string }
+  | { type: "hold_music.stop" }
+  | { type: "function_call_output"; call_id: string; output: string };
+
+// How long to wait for the call to acknowledge a control
+const CONTROL_TIMEOUT_MS = 10000;
+
+interface PendingControl {
+  resolve: (message: string) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+// Custom hook sending call controls over the logs socket and waiting for the
+// call's ack, so each tab only hears about its own requests
+export function useCallControl(
+  ws: WebSocket | null | undefined,
+  callSid: string | null
+) {
+  const pendingRef = useRef(new Map<string, PendingControl>());
+  const nextIdRef = useRef(0);
+
+  useEffect(() => {
+    if (!ws) return;
+    const pending = pendingRef.current;
+
+    const handleMessage = (event: MessageEvent) => {
+      const data = JSON.parse(event.data);
+      if (data.type !== "control.ack" && data.type !== "control.error") return;
+
+      const request = pending.get(data.requestId);
+      if (!request) return;
+      pending.delete(data.requestId);
+      clearTimeout(request.timer);
+
+      if (data.type === "control.ack") {
+        request.resolve(data.message);
+      } else {
+        request.reject(new Error(data.message || "Call control failed"));
+      }
+    };
+
+    ws.addEventListener("message", handleMessage);
+    return () => {
+      ws.removeEventListener("message", handleMessage);
+      pending.forEach((request) => {
+        clearTimeout(request.timer);
+        request.reject(new Error("Connection closed"));
+      });
+      pending.clear();
+    };
+  }, [ws]);
+
+  const sendControl = useCallback(
+    (message: CallControlMessage) =>
+      new Promise<string>((resolve, reject) => {
+        if (!ws || ws.readyState !== WebSocket.OPEN) {
+          reject(new Error("Not connected"));
+          return;
+        }
+        if (!callSid) {
+          reject(new Error("No active call"));
+          return;
+        }
+
+        nextIdRef.current += 1;
+        const requestId = `${Date.now()}-${nextIdRef.current}`;
+        const timer = setTimeout(() => {
+          pendingRef.current.delete(requestId);
+          reject(new Error("The call did not respond"));
+        }, CONTROL_TIMEOUT_MS);
+
+        pendingRef.current.set(requestId, { resolve, reject, timer });
+        ws.send(JSON.stringify({ ...message, callSid, requestId }));
+      }),
+    [ws, callSid]
+  );
+
+  return { sendControl };
+}
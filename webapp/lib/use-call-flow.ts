@@ -0,0 +1,69 @@
+import { useState, useEffect, useCallback } from "react";
+import { getBackendHttpUrl } from "@/lib/config";
+
+export interface CallFlowDefinition {
+  greeting: string;
+  voice?: string;
+  language?: string;
+  holdMessage: string;
+  holdTrack: string;
+  holdLoops: number;
+  retryMessage: string;
+}
+
+// Custom hook loading and saving the greeting and hold flow for a number
+export function useCallFlow(phoneNumber: string, token: string | null) {
+  const [flow, setFlow] = useState<CallFlowDefinition | null>(null);
+
+  useEffect(() => {
+    if (!phoneNumber || !token) {
+      setFlow(null);
+      return;
+    }
+    let isMounted = true;
+
+    const url = new URL(`${getBackendHttpUrl()}/flows`);
+    url.searchParams.set("phoneNumber", phoneNumber);
+    fetch(url.toString(), {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+      .then((res) => res.json())
+      .then((data) => {
+        if (isMounted) setFlow(data as CallFlowDefinition);
+      })
+      .catch((error) => {
+        console.error("Error fetching call flow:", error);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [phoneNumber, token]);
+
+  // Resolves on success, throws with the server's message otherwise
+  const saveFlow = useCallback(
+    async (newFlow: CallFlowDefinition) => {
+      if (!phoneNumber || !token) return;
+
+      const response = await fetch(`${getBackendHttpUrl()}/flows`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ phoneNumber, flow: newFlow }),
+      });
+      const result = (await response.json()) as CallFlowDefinition & {
+        error?: string;
+      };
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to save call flow");
+      }
+      setFlow(result);
+    },
+    [phoneNumber, token]
+  );
+
+  return { flow, saveFlow };
+}
@@ -0,0 +1,144 @@
+import { useState, useEffect } from "react";
+import { getBackendHttpUrl } from "@/lib/config";
+
+export const CALL_HISTORY_PAGE_SIZE = 20;
+
+export interface CallHistoryTranscriptEntry {
+  role: "caller" | "assistant" | "operator";
+  text: string;
+  at: number;
+}
+
+export interface CallHistoryFunctionCall {
+  callId?: string;
+  name: string;
+  arguments: string;
+  output?: string;
+  at: number;
+}
+
+// Structured summary generated when a call ends
+export interface PostCallSummary {
+  reasonForCall: string;
+  patient?: string;
+  medications: string[];
+  actionsPromised: string[];
+  followUpNeeded: boolean;
+  followUpNotes?: string;
+  disposition: "resolved" | "follow_up" | "transferred" | "unresolved";
+  generatedAt: number;
+}
+
+export interface CallHistorySummary {
+  callSid: string;
+  partialNumber?: string;
+  calledNumber?: string;
+  routingReason?: string;
+  claimedBy?: string;
+  claimedByName?: string;
+  transferStatus?: string;
+  startedAt: number;
+  endedAt: number;
+  durationMs: number;
+  summary?: PostCallSummary;
+}
+
+export interface CallHistoryRecord extends CallHistorySummary {
+  transcript: CallHistoryTranscriptEntry[];
+  transcriptTruncated?: boolean;
+  functionCalls: CallHistoryFunctionCall[];
+}
+
+interface CallHistoryPage {
+  calls: CallHistorySummary[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+// Custom hook loading one page of finished calls, optionally filtered by transcript text
+export function useCallHistory(
+  token: string | null,
+  query: string,
+  offset: number
+) {
+  const [page, setPage] = useState<CallHistoryPage | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!token) return;
+    let isMounted = true;
+    setLoading(true);
+    setError("");
+
+    const url = new URL(`${getBackendHttpUrl()}/calls`);
+    if (query) url.searchParams.set("q", query);
+    url.searchParams.set("limit", String(CALL_HISTORY_PAGE_SIZE));
+    url.searchParams.set("offset", String(offset));
+
+    fetch(url.toString(), {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+      .then(async (res) => {
+        const data = (await res.json()) as CallHistoryPage & {
+          error?: string;
+        };
+        if (!res.ok) {
+          throw new Error(data.error || "Failed to load call history");
+        }
+        if (isMounted) setPage(data);
+      })
+      .catch((err) => {
+        if (isMounted) {
+          setError(
+            err instanceof Error ? err.message : "Failed to load call history"
+          );
+        }
+      })
+      .finally(() => {
+        if (isMounted) setLoading(false);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [token, query, offset]);
+
+  return { page, loading, error };
+}
+
+// Custom hook loading a finished call's transcript and function calls
+export function useCallRecord(callSid: string | null, token: string | null) {
+  const [record, setRecord] = useState<CallHistoryRecord | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    setRecord(null);
+    setError("");
+    if (!callSid || !token) return;
+    let isMounted = true;
+
+    fetch(`${getBackendHttpUrl()}/calls/${encodeURIComponent(callSid)}`, {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+      .then(async (res) => {
+        const data = (await res.json()) as CallHistoryRecord & {
+          error?: string;
+        };
+        if (!res.ok) throw new Error(data.error || "Failed to load call");
+        if (isMounted) setRecord(data);
+      })
+      .catch((err) => {
+        if (isMounted) {
+          setError(err instanceof Error ? err.message : "Failed to load call");
+        }
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [callSid, token]);
+
+  return { record, error };
+}
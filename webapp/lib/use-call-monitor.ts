@@ -0,0 +1,110 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { base64ToBytes, decodeMuLaw, MULAW_SAMPLE_RATE } from "@/lib/mulaw";
+
+export type MonitorLeg = "caller" | "assistant";
+
+// Head start given to each leg so network jitter does not cause gaps
+const JITTER_BUFFER_SECONDS = 0.15;
+
+interface LegPlayback {
+  gain: GainNode;
+  nextStartTime: number;
+}
+
+// Custom hook playing both legs of a live call, mixed in the browser
+export function useCallMonitor(socket: WebSocket | null) {
+  const [listening, setListening] = useState(false);
+  const [volumes, setVolumes] = useState<Record<MonitorLeg, number>>({
+    caller: 1,
+    assistant: 1,
+  });
+  const contextRef = useRef<AudioContext | null>(null);
+  const legsRef = useRef<Record<MonitorLeg, LegPlayback> | null>(null);
+
+  const closePlayback = useCallback(() => {
+    contextRef.current?.close();
+    contextRef.current = null;
+    legsRef.current = null;
+  }, []);
+
+  // Schedule each chunk right after the previous one on the same leg
+  const playChunk = useCallback((leg: MonitorLeg, audio: string) => {
+    const context = contextRef.current;
+    const legs = legsRef.current;
+    if (!context || !legs) return;
+
+    const samples = decodeMuLaw(base64ToBytes(audio));
+    if (samples.length === 0) return;
+    const buffer = context.createBuffer(1, samples.length, MULAW_SAMPLE_RATE);
+    buffer.copyToChannel(samples, 0);
+
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(legs[leg].gain);
+
+    const startTime = Math.max(
+      legs[leg].nextStartTime,
+      context.currentTime + JITTER_BUFFER_SECONDS
+    );
+    source.start(startTime);
+    legs[leg].nextStartTime = startTime + buffer.duration;
+  }, []);
+
+  useEffect(() => {
+    if (!socket || !listening) return;
+
+    const handleMessage = (event: MessageEvent) => {
+      const data = JSON.parse(event.data);
+      if (data.type === "monitor.audio") {
+        playChunk(data.leg as MonitorLeg, data.audio);
+      }
+    };
+
+    socket.addEventListener("message", handleMessage);
+    return () => socket.removeEventListener("message", handleMessage);
+  }, [socket, listening, playChunk]);
+
+  const startListening = useCallback(() => {
+    if (!socket || socket.readyState !== WebSocket.OPEN) return;
+
+    const context = new AudioContext();
+    const createLeg = (leg: MonitorLeg): LegPlayback => {
+      const gain = context.createGain();
+      gain.gain.value = volumes[leg];
+      gain.connect(context.destination);
+      return { gain, nextStartTime: 0 };
+    };
+    contextRef.current = context;
+    legsRef.current = { caller: createLeg("caller"), assistant: createLeg("assistant") };
+
+    socket.send(JSON.stringify({ type: "monitor.start" }));
+    setListening(true);
+  }, [socket, volumes]);
+
+  const stopListening = useCallback(() => {
+    if (socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify({ type: "monitor.stop" }));
+    }
+    closePlayback();
+    setListening(false);
+  }, [socket, closePlayback]);
+
+  const setVolume = useCallback((leg: MonitorLeg, volume: number) => {
+    setVolumes((prev) => ({ ...prev, [leg]: volume }));
+    const legs = legsRef.current;
+    if (legs) {
+      legs[leg].gain.gain.value = volume;
+    }
+  }, []);
+
+  // The subscription lives on the socket, so losing it ends playback
+  useEffect(() => {
+    if (!socket) {
+      closePlayback();
+      setListening(false);
+    }
+    return closePlayback;
+  }, [socket, closePlayback]);
+
+  return { listening, volumes, setVolume, startListening, stopListening };
+}
@@ -0,0 +1,59 @@
+import { useState, useEffect } from "react";
+import { getBackendWsUrl } from "@/lib/config";
+
+export interface QueueEntry {
+  callSid: string;
+  partialNumber: string;
+  enqueuedAt: number;
+  holdPosition: number;
+}
+
+const RECONNECT_DELAY_MS = 3000;
+
+// Custom hook subscribing to the worker's live queue of waiting calls
+export function useCallQueue(token: string | null) {
+  const [entries, setEntries] = useState<QueueEntry[]>([]);
+  const [connected, setConnected] = useState(false);
+
+  useEffect(() => {
+    if (!token) return;
+
+    let ws: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let isMounted = true;
+
+    const connect = () => {
+      ws = new WebSocket(
+        `${getBackendWsUrl()}/queue/subscribe?token=${encodeURIComponent(token)}`
+      );
+
+      ws.onmessage = (event) => {
+        const data = JSON.parse(event.data);
+        if (data.type === "queue.snapshot" || data.type === "queue.updated") {
+          setEntries(data.entries as QueueEntry[]);
+          setConnected(true);
+        }
+      };
+
+      ws.onclose = () => {
+        setConnected(false);
+        // Keep trying while the dashboard is open
+        if (isMounted) {
+          reconnectTimer = setTimeout(connect, RECONNECT_DELAY_MS);
+        }
+      };
+    };
+
+    connect();
+
+    return () => {
+      isMounted = false;
+      clearTimeout(reconnectTimer);
+      ws?.close();
+      setEntries([]);
+      setConnected(false);
+    };
+  }, [token]);
+
+  return { entries, connected };
+}
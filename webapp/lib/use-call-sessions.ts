@@ -0,0 +1,145 @@
+import { useState, useCallback } from "react";
+import { Item } from "@/components/types";
+import handleRealtimeEvent from "@/lib/handle-realtime-event";
+import { CallTransfer } from "@/lib/use-call-transfer";
+import { PostCallSummary } from "@/lib/use-call-history";
+
+// A call shown as a dashboard tab, with its own transcript and status
+export interface CallSession {
+  callSid: string;
+  routingReason?: string;
+  claimedBy?: string;
+  claimedByName?: string;
+  startedAt: number;
+  endedAt?: number;
+  items: Item[];
+  transfer?: CallTransfer;
+  summary?: PostCallSummary;
+}
+
+// Realtime and operator events that build a call's transcript. Anything else
+// tagged with a callSid (control acks, queue and status updates) is not.
+const TRANSCRIPT_EVENT_TYPES = new Set([
+  "session.created",
+  "input_audio_buffer.speech_started",
+  "conversation.item.created",
+  "conversation.item.input_audio_transcription.completed",
+  "response.content_part.added",
+  "response.audio_transcript.delta",
+  "response.output_item.done",
+  "operator_note",
+]);
+
+function newCallSession(
+  callSid: string,
+  details: Partial<CallSession> = {}
+): CallSession {
+  return { callSid, startedAt: Date.now(), items: [], ...details };
+}
+
+// Custom hook splitting the shared logs broadcasts into one view per call.
+// Every broadcast is tagged with the callSid it came from.
+export function useCallSessions() {
+  const [calls, setCalls] = useState<CallSession[]>([]);
+
+  // Apply an update to a call's tab, opening one unless `existingOnly` is set
+  const updateCall = useCallback(
+    (
+      callSid: string,
+      update: (call: CallSession) => CallSession,
+      existingOnly = false
+    ) => {
+      setCalls((prev) => {
+        const idx = prev.findIndex((call) => call.callSid === callSid);
+        if (idx < 0) {
+          return existingOnly ? prev : [...prev, update(newCallSession(callSid))];
+        }
+        const updated = [...prev];
+        updated[idx] = update(updated[idx]);
+        return updated;
+      });
+    },
+    []
+  );
+
+  // Returns false for events that are not about a call, so the caller can handle them
+  const handleCallEvent = useCallback(
+    (data: any): boolean => {
+      if (data.type === "active_calls") {
+        // Snapshot on connect - keep transcripts already collected in this tab
+        setCalls((prev) => {
+          const known = new Set(prev.map((call) => call.callSid));
+          const added = (data.calls as CallSession[])
+            .filter((call) => !known.has(call.callSid))
+            .map((call) => newCallSession(call.callSid, call));
+          return [...prev, ...added];
+        });
+        return true;
+      }
+
+      if (!data.callSid) return false;
+      const { callSid } = data;
+
+      switch (data.type) {
+        case "call_started":
+          updateCall(callSid, (call) => ({
+            ...call,
+            routingReason: data.routingReason,
+            claimedBy: data.claimedBy,
+            claimedByName: data.claimedByName,
+            endedAt: undefined,
+          }));
+          return true;
+
+        // A call can end long after its tab was closed - don't bring it back
+        case "call_ended":
+          updateCall(
+            callSid,
+            (call) => ({ ...call, endedAt: data.timestamp }),
+            true
+          );
+          return true;
+
+        case "call.summary":
+          updateCall(
+            callSid,
+            (call) => ({ ...call, summary: data.summary }),
+            true
+          );
+          return true;
+
+        case "call_transfer":
+          // Later updates for the same call keep the summary from the first
+          updateCall(callSid, (call) => ({
+            ...call,
+            transfer: { ...call.transfer, ...data },
+          }));
+          return true;
+
+        default: {
+          // Only transcript events may open a tab for a call
+          if (!TRANSCRIPT_EVENT_TYPES.has(data.type)) return false;
+
+          // Realtime events and operator notes feed that call's transcript
+          const setItems: React.Dispatch<React.SetStateAction<Item[]>> = (
+            action
+          ) =>
+            updateCall(callSid, (call) => ({
+              ...call,
+              items: typeof action === "function" ? action(call.items) : action,
+            }));
+          handleRealtimeEvent(data, setItems);
+          return true;
+        }
+      }
+    },
+    [updateCall]
+  );
+
+  // Close the tab for a call that has finished
+  const dismissCall = useCallback((callSid: string) => {
+    setCalls((prev) => prev.filter((call) => call.callSid !== callSid));
+  }, []);
+
+  return { calls, handleCallEvent, dismissCall };
+}
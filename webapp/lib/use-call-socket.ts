@@ -0,0 +1,28 @@
+import { useState, useEffect } from "react";
+import { getBackendWsUrl } from "@/lib/config";
+
+// Custom hook opening a dashboard socket on one call's own session, for
+// messages that must reach that call rather than the shared logs session
+export function useCallSocket(callSid: string | null, token: string | null) {
+  const [socket, setSocket] = useState<WebSocket | null>(null);
+
+  useEffect(() => {
+    if (!callSid || !token) return;
+
+    const ws = new WebSocket(
+      `${getBackendWsUrl()}/logs?token=${encodeURIComponent(
+        token
+      )}&callSid=${encodeURIComponent(callSid)}`
+    );
+
+    ws.onopen = () => setSocket(ws);
+    ws.onclose = () => setSocket((current) => (current === ws ? null : current));
+
+    return () => {
+      ws.close();
+      setSocket(null);
+    };
+  }, [callSid, token]);
+
+  return socket;
+}
@@ -0,0 +1,60 @@
+import { useState, useCallback } from "react";
+import { getBackendHttpUrl } from "@/lib/config";
+
+export type CallTransferStatus =
+  | "summarizing"
+  | "dialing"
+  | "answered"
+  | "completed"
+  | "unanswered"
+  | "failed";
+
+// Latest state of a warm handoff, from call_transfer broadcasts
+export interface CallTransfer {
+  callSid: string;
+  status: CallTransferStatus;
+  reason?: string;
+  requestedBy?: string;
+  summary?: string;
+  timestamp: number;
+}
+
+// Custom hook asking the worker to hand a live call to the pharmacist
+export function useCallTransfer(token: string | null) {
+  const [requesting, setRequesting] = useState(false);
+  const [error, setError] = useState("");
+
+  const requestTransfer = useCallback(
+    async (callSid: string, reason?: string) => {
+      if (!token) return;
+      setRequesting(true);
+      setError("");
+
+      try {
+        const response = await fetch(`${getBackendHttpUrl()}/transfer-call`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({ callSid, reason }),
+        });
+        const result = (await response.json()) as {
+          success: boolean;
+          message?: string;
+        };
+
+        if (!result.success) {
+          throw new Error(result.message || "Failed to transfer call");
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to transfer call");
+      } finally {
+        setRequesting(false);
+      }
+    },
+    [token]
+  );
+
+  return { requesting, error, requestTransfer };
+}
@@ -0,0 +1,101 @@
+import { useState, useEffect, useCallback } from "react";
+import { getBackendHttpUrl } from "@/lib/config";
+
+export type RoutingMode = "operator" | "ai" | "schedule";
+
+export type InboundFlow = "operator" | "ai" | "closed";
+
+export interface ActiveInboundFlow {
+  flow: InboundFlow;
+  reason: "fixed" | "open" | "closed" | "holiday" | "no-schedule";
+}
+
+const ACTIVE_FLOW_REFRESH_MS = 60000;
+
+// Custom hook reading and switching how inbound calls to a number are answered
+export function useNumberRouting(phoneNumber: string, token: string | null) {
+  const [mode, setModeState] = useState<RoutingMode>("operator");
+  const [saving, setSaving] = useState(false);
+  const [activeFlow, setActiveFlow] = useState<ActiveInboundFlow | null>(null);
+
+  useEffect(() => {
+    if (!phoneNumber || !token) return;
+    let isMounted = true;
+
+    fetch(`${getBackendHttpUrl()}/routing`, {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+      .then((res) => res.json())
+      .then((data) => {
+        const routing = data as Record<string, { mode: RoutingMode }>;
+        if (isMounted) setModeState(routing[phoneNumber]?.mode || "operator");
+      })
+      .catch((error) => {
+        console.error("Error fetching number routing:", error);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [phoneNumber, token]);
+
+  // The schedule can flip the active flow at any time, so keep re-checking
+  useEffect(() => {
+    if (!phoneNumber || !token) {
+      setActiveFlow(null);
+      return;
+    }
+    let isMounted = true;
+
+    const fetchActiveFlow = () => {
+      const url = new URL(`${getBackendHttpUrl()}/routing/active`);
+      url.searchParams.set("phoneNumber", phoneNumber);
+      fetch(url.toString(), {
+        headers: { Authorization: `Bearer ${token}` },
+      })
+        .then((res) => res.json())
+        .then((data) => {
+          if (isMounted) setActiveFlow(data as ActiveInboundFlow);
+        })
+        .catch((error) => {
+          console.error("Error fetching active inbound flow:", error);
+        });
+    };
+
+    fetchActiveFlow();
+    const intervalId = setInterval(fetchActiveFlow, ACTIVE_FLOW_REFRESH_MS);
+
+    return () => {
+      isMounted = false;
+      clearInterval(intervalId);
+    };
+  }, [phoneNumber, token, mode]);
+
+  const setMode = useCallback(
+    async (newMode: RoutingMode) => {
+      if (!phoneNumber || !token) return;
+      setSaving(true);
+
+      try {
+        const response = await fetch(`${getBackendHttpUrl()}/routing`, {
+          method: "PUT",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({ phoneNumber, mode: newMode }),
+        });
+        if (response.ok) {
+          setModeState(newMode);
+        }
+      } catch (error) {
+        console.error("Error updating number routing:", error);
+      } finally {
+        setSaving(false);
+      }
+    },
+    [phoneNumber, token]
+  );
+
+  return { mode, setMode, saving, activeFlow };
+}
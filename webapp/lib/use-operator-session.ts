@@ -0,0 +1,89 @@
+import { useState, useEffect, useCallback } from "react";
+import { getBackendHttpUrl } from "@/lib/config";
+
+export interface Operator {
+  id: string;
+  name: string;
+}
+
+interface StoredOperatorSession {
+  token: string;
+  expiresAt: number;
+  operator: Operator;
+}
+
+const STORAGE_KEY = "operator-session";
+
+function readStoredSession(): StoredOperatorSession | null {
+  try {
+    const raw = window.localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const stored = JSON.parse(raw) as StoredOperatorSession;
+    return stored.expiresAt > Date.now() ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+// Custom hook holding the signed operator session token issued by the worker
+export function useOperatorSession() {
+  const [session, setSession] = useState<StoredOperatorSession | null>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  // Restore a still-valid session from a previous visit
+  useEffect(() => {
+    setSession(readStoredSession());
+    setLoaded(true);
+  }, []);
+
+  // Drop the session once the token expires
+  useEffect(() => {
+    if (!session) return;
+    const timer = setTimeout(() => {
+      window.localStorage.removeItem(STORAGE_KEY);
+      setSession(null);
+    }, session.expiresAt - Date.now());
+    return () => clearTimeout(timer);
+  }, [session]);
+
+  const login = useCallback(async (operatorId: string, password: string) => {
+    const response = await fetch(`${getBackendHttpUrl()}/auth/login`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ operatorId, password }),
+    });
+
+    const result = (await response.json()) as {
+      success: boolean;
+      message?: string;
+      token?: string;
+      expiresAt?: number;
+      operator?: Operator;
+    };
+
+    if (!result.success || !result.token || !result.operator) {
+      throw new Error(result.message || "Login failed");
+    }
+
+    const newSession: StoredOperatorSession = {
+      token: result.token,
+      expiresAt: result.expiresAt || Date.now(),
+      operator: result.operator,
+    };
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(newSession));
+    setSession(newSession);
+  }, []);
+
+  const logout = useCallback(() => {
+    window.localStorage.removeItem(STORAGE_KEY);
+    setSession(null);
+  }, []);
+
+  return {
+    loaded,
+    operator: session?.operator ?? null,
+    token: session?.token ?? null,
+    login,
+    logout,
+  };
+}
@@ -0,0 +1,61 @@
+import { useState, useCallback } from "react";
+import { getBackendHttpUrl } from "@/lib/config";
+
+// Placeholders the worker fills in per call
+export const TEMPLATE_VARIABLES = [
+  "callerName",
+  "pharmacyName",
+  "timeOfDay",
+  "operatorName",
+] as const;
+
+export type TemplateVariable = (typeof TEMPLATE_VARIABLES)[number];
+
+export interface PromptPreview {
+  instructions: string;
+  greeting: string;
+  variables: Record<TemplateVariable, string>;
+}
+
+// Custom hook asking the worker to render instructions and greeting templates
+export function usePromptPreview(token: string | null) {
+  const [preview, setPreview] = useState<PromptPreview | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const renderPreview = useCallback(
+    async (instructions: string, greeting: string, callSid?: string) => {
+      if (!token) return;
+      setLoading(true);
+      setError("");
+
+      try {
+        const response = await fetch(`${getBackendHttpUrl()}/prompt-preview`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({ instructions, greeting, callSid }),
+        });
+        const result = (await response.json()) as PromptPreview & {
+          error?: string;
+        };
+
+        if (!response.ok) {
+          throw new Error(result.error || "Failed to render preview");
+        }
+        setPreview(result);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to render preview");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [token]
+  );
+
+  const clearPreview = useCallback(() => setPreview(null), []);
+
+  return { preview, loading, error, renderPreview, clearPreview };
+}
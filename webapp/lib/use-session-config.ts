@@ -0,0 +1,106 @@
+import { useState, useEffect, useCallback } from "react";
+import { getBackendHttpUrl } from "@/lib/config";
+
+// "default" covers every number; a phone number overrides it for calls to that number
+export const DEFAULT_PROFILE = "default";
+
+export interface AssistantSessionConfig {
+  instructions?: string;
+  greeting?: string;
+  voice?: string;
+  tools?: any[];
+}
+
+export interface SessionConfigProfile extends AssistantSessionConfig {
+  updatedAt: number;
+  updatedBy?: string;
+}
+
+// Custom hook loading and saving the assistant settings for a profile,
+// and pushing settings to a single live call
+export function useSessionConfig(profile: string, token: string | null) {
+  const [config, setConfig] = useState<SessionConfigProfile | null>(null);
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    if (!profile || !token) return;
+    let isMounted = true;
+    setLoaded(false);
+
+    const url = new URL(`${getBackendHttpUrl()}/session-config`);
+    url.searchParams.set("profile", profile);
+    fetch(url.toString(), {
+      headers: { Authorization: `Bearer ${token}` },
+    })
+      .then((res) => res.json())
+      .then((data) => {
+        const result = data as { config: SessionConfigProfile | null };
+        if (isMounted) {
+          setConfig(result.config);
+          setLoaded(true);
+        }
+      })
+      .catch((error) => {
+        console.error("Error fetching session config:", error);
+      });
+
+    return () => {
+      isMounted = false;
+    };
+  }, [profile, token]);
+
+  const saveProfile = useCallback(
+    async (newConfig: AssistantSessionConfig) => {
+      if (!token) throw new Error("Not signed in");
+
+      const response = await fetch(`${getBackendHttpUrl()}/session-config`, {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+          Authorization: `Bearer ${token}`,
+        },
+        body: JSON.stringify({ profile, config: newConfig }),
+      });
+      const result = (await response.json()) as SessionConfigProfile & {
+        error?: string;
+      };
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to save session config");
+      }
+      setConfig(result);
+    },
+    [profile, token]
+  );
+
+  // Resolves to whether the assistant on the call picked the settings up straight away
+  const applyToCall = useCallback(
+    async (callSid: string, newConfig: AssistantSessionConfig) => {
+      if (!token) throw new Error("Not signed in");
+
+      const response = await fetch(
+        `${getBackendHttpUrl()}/session-config/live`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+          },
+          body: JSON.stringify({ callSid, config: newConfig }),
+        }
+      );
+      const result = (await response.json()) as {
+        applied?: boolean;
+        error?: string;
+      };
+
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to update call");
+      }
+      return Boolean(result.applied);
+    },
+    [token]
+  );
+
+  return { config, loaded, saveProfile, applyToCall };
+}
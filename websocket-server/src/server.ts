@@ -3,9 +3,8 @@ import { WebSocketServer, WebSocket } from "ws";
 import { IncomingMessage } from "http";
 import dotenv from "dotenv";
 import http from "http";
-import { readFileSync } from "fs";
-import { join } from "path";
 import cors from "cors";
+import { buildTwiml } from "./twiml";
 import {
   handleCallConnection,
   handleFrontendConnection,
@@ -30,9 +29,6 @@ const wss = new WebSocketServer({ server });
 
 app.use(express.urlencoded({ extended: false }));
 
-const twimlPath = join(__dirname, "twiml.xml");
-const twimlTemplate = readFileSync(twimlPath, "utf-8");
-
 app.get("/public-url", (req, res) => {
   res.json({ publicUrl: PUBLIC_URL });
 });
@@ -42,7 +38,10 @@ app.all("/twiml", (req, res) => {
   wsUrl.protocol = "wss:";
   wsUrl.pathname = `/call`;
 
-  const twimlContent = twimlTemplate.replace("{{WS_URL}}", wsUrl.toString());
+  const twimlContent = buildTwiml([
+    { verb: "Connect", stream: { url: wsUrl.toString() } },
+    { verb: "Say", text: "Disconnected" },
+  ]);
   res.type("text/xml").send(twimlContent);
 });
 